@@ -0,0 +1,143 @@
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ErrorBar, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { AnalysisData } from "@/types/analysis";
+
+type ClimateField = "sunshine_monthly_total" | "temperature_2m_mean" | "precipitation_monthly_total";
+
+const CLIMATE_CHARTS: Array<{ field: ClimateField; title: string; unit: string; kind: "bar" | "line"; color: string }> = [
+  { field: "sunshine_monthly_total", title: "Sunshine", unit: "hours per month", kind: "bar", color: "#f59e0b" },
+  { field: "temperature_2m_mean", title: "Temperature", unit: "°C, daily mean", kind: "line", color: "#ef4444" },
+  { field: "precipitation_monthly_total", title: "Precipitation", unit: "mm per month", kind: "bar", color: "#3b82f6" },
+];
+
+// One colour per historical year, oldest first
+const YEAR_COLORS = ["#94a3b8", "#a78bfa", "#22c55e", "#f97316", "#0ea5e9", "#e11d48"];
+
+type ChartRow = { month: string } & Record<string, number | string | number[] | null>;
+
+const round = (value: number | null | undefined) => (value == null ? null : Math.round(value * 10) / 10);
+
+interface ClimateChartsProps {
+  weather: AnalysisData["weather"];
+  climateYears: AnalysisData["climate_years"];
+  variability: AnalysisData["variability"];
+}
+
+// Monthly sunshine, temperature and precipitation, either as the multi-year
+// average (with whiskers from the lowest to the highest year) or with one
+// series per historical year
+const ClimateCharts = ({ weather, climateYears, variability }: ClimateChartsProps) => {
+  const [view, setView] = useState<"average" | "years">("average");
+  const showYears = view === "years" && climateYears.length > 0;
+
+  // Rows keyed by field for the average, `${field}_range` for its whisker
+  // offsets and `${field}_${year}` per year
+  const rows = useMemo<ChartRow[]>(
+    () =>
+      weather.map((month, index) => {
+        const row: ChartRow = { month: month.month.slice(0, 3) };
+        CLIMATE_CHARTS.forEach(({ field }) => {
+          row[field] = round(month[field]);
+          const spread = variability.monthly[index][field];
+          if (spread) {
+            row[`${field}_range`] = [Math.max(month[field] - spread.min, 0), Math.max(spread.max - month[field], 0)];
+          }
+          climateYears.forEach(({ year, months }) => {
+            row[`${field}_${year}`] = round(months[index][field]);
+          });
+        });
+        return row;
+      }),
+    [weather, climateYears, variability]
+  );
+
+  const seriesFor = (field: ClimateField, color: string) =>
+    showYears
+      ? climateYears.map(({ year }, index) => ({
+          key: `${field}_${year}`,
+          label: String(year),
+          color: YEAR_COLORS[index % YEAR_COLORS.length],
+        }))
+      : [{ key: field, label: "Average", color }];
+
+  return (
+    <div className="space-y-4">
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={view}
+        onValueChange={(value) => value && setView(value as "average" | "years")}
+        className="justify-start"
+      >
+        <ToggleGroupItem value="average">Multi-year average</ToggleGroupItem>
+        <ToggleGroupItem value="years" disabled={climateYears.length === 0}>
+          Each year
+        </ToggleGroupItem>
+      </ToggleGroup>
+      {!showYears && (
+        <p className="text-xs text-muted-foreground">Whiskers span the lowest to the highest historical year.</p>
+      )}
+
+      {CLIMATE_CHARTS.map(({ field, title, unit, kind, color }) => {
+        const series = seriesFor(field, color);
+        const config: ChartConfig = Object.fromEntries(
+          series.map(({ key, label, color: seriesColor }) => [key, { label, color: seriesColor }])
+        );
+
+        return (
+          <div key={field} className="space-y-1">
+            <h3 className="text-sm font-semibold text-foreground">
+              {title} <span className="text-xs font-normal text-muted-foreground">({unit})</span>
+            </h3>
+            <ChartContainer config={config} className="aspect-auto h-[180px] w-full">
+              {kind === "bar" ? (
+                <BarChart data={rows} margin={{ left: -20, right: 4 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickLine={false} axisLine={false} interval={0} fontSize={10} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  {showYears && <ChartLegend content={<ChartLegendContent />} />}
+                  {series.map(({ key }) => (
+                    <Bar key={key} dataKey={key} fill={`var(--color-${key})`} radius={2}>
+                      {!showYears && (
+                        <ErrorBar dataKey={`${field}_range`} width={3} strokeWidth={1} stroke="hsl(var(--foreground))" />
+                      )}
+                    </Bar>
+                  ))}
+                </BarChart>
+              ) : (
+                <LineChart data={rows} margin={{ left: -20, right: 4 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickLine={false} axisLine={false} interval={0} fontSize={10} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent indicator="line" />} />
+                  {showYears && <ChartLegend content={<ChartLegendContent />} />}
+                  {series.map(({ key }) => (
+                    <Line
+                      key={key}
+                      dataKey={key}
+                      type="monotone"
+                      stroke={`var(--color-${key})`}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls={false}
+                    >
+                      {!showYears && (
+                        <ErrorBar dataKey={`${field}_range`} width={3} strokeWidth={1} stroke="hsl(var(--foreground))" />
+                      )}
+                    </Line>
+                  ))}
+                </LineChart>
+              )}
+            </ChartContainer>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ClimateCharts;
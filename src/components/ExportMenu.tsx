@@ -0,0 +1,53 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { downloadFile } from "@/lib/csv";
+import {
+  climateCsv,
+  exportFileName,
+  horizonPvgis,
+  horizonPvsyst,
+  obstaclesCsv,
+  toGeoJson,
+  toKml,
+  type ExportFormat,
+} from "@/lib/export";
+import type { AnalysisData } from "@/types/analysis";
+
+const EXPORTS: Array<{ format: ExportFormat; label: string; build: (data: AnalysisData) => string; type: string }> = [
+  { format: "geojson", label: "Site and obstacles (GeoJSON)", build: toGeoJson, type: "application/geo+json" },
+  { format: "kml", label: "Site and obstacles (KML)", build: toKml, type: "application/vnd.google-earth.kml+xml" },
+  { format: "obstacles-csv", label: "Obstacles (CSV)", build: obstaclesCsv, type: "text/csv;charset=utf-8" },
+  { format: "climate-csv", label: "Monthly climate (CSV)", build: climateCsv, type: "text/csv;charset=utf-8" },
+  { format: "horizon-pvgis", label: "Horizon profile (PVGIS)", build: horizonPvgis, type: "text/plain;charset=utf-8" },
+  { format: "horizon-pvsyst", label: "Horizon profile (PVsyst)", build: horizonPvsyst, type: "text/csv;charset=utf-8" },
+];
+
+const ExportMenu = ({ data }: { data: AnalysisData }) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline" size="sm">
+        <Download className="mr-2 h-4 w-4" />
+        Export
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuLabel>Download results</DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      {EXPORTS.map(({ format, label, build, type }) => (
+        <DropdownMenuItem key={format} onSelect={() => downloadFile(exportFileName(data, format), build(data), type)}>
+          {label}
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default ExportMenu;
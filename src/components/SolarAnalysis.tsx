@@ -1,124 +1,237 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
+import type { GeoJSON, LatLng, LatLngTuple, Layer, LayerGroup, Map as LeafletMap, TileLayer } from "leaflet";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
-import { Loader2, Building2, Trees, Zap, MapPin } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, MapPin, History, FileSpreadsheet, FileText } from "lucide-react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { toast } from "sonner";
+import { streamAnalysis } from "@/lib/analysis-stream";
+import { fetchAnalysis } from "@/lib/analyses";
+import { globalLeaflet, loadMarkerCluster } from "@/lib/leaflet";
+import {
+  BASEMAPS,
+  OVERLAYS,
+  readLayerPreferences,
+  saveLayerPreferences,
+  type Basemap,
+  type BasemapId,
+  type OverlayId,
+} from "@/lib/map-layers";
+import { OBSTACLE_KIND_STYLES, OBSTACLE_KINDS } from "@/lib/obstacle-categories";
+import { compassPoint, obstaclePopupHtml } from "@/lib/obstacle-popup";
+import { downloadReport } from "@/lib/report";
+import { analysisPath, buildQuery, readMapView, readSystemQuery, type MapView } from "@/lib/permalink";
+import { OBSTACLE_CATEGORIES } from "@shared/obstacles.ts";
+import { parseGeographicPostcode } from "@shared/postcode.ts";
+import { parseBuffer, parseSite, SITE_BUFFER_LIMITS, SITE_RADIUS_LIMITS } from "@shared/site.ts";
+import { useEventCallback } from "@/hooks/use-event-callback";
+import { useSiteDrawing, type SiteMode } from "@/hooks/use-site-drawing";
+import ClimateCharts from "@/components/ClimateCharts";
+import ExportMenu from "@/components/ExportMenu";
+import SunPathChart from "@/components/SunPathChart";
+import YieldSpread from "@/components/YieldSpread";
+import type {
+  AnalysisData,
+  AnalysisStep,
+  BuildingFeature,
+  ObstacleFeature,
+  ObstacleKind,
+  ObstacleZone,
+  SystemParameters,
+} from "@/types/analysis";
 
-interface AnalysisData {
-  boundary: any;
-  obstacles: {
-    buildings: Array<{ lat: number; lon: number }>;
-    trees: Array<{ lat: number; lon: number }>;
-    poles: Array<{ lat: number; lon: number }>;
-  };
-  weather: Array<{
-    month: string;
-    temperature_2m_mean: number;
-    precipitation_sum: number;
-    sunshine_duration: number;
-  }>;
+const SYSTEM_FIELDS: Array<{ key: keyof SystemParameters; label: string; unit: string }> = [
+  { key: "kwp", label: "System size", unit: "kWp" },
+  { key: "tilt", label: "Tilt", unit: "°" },
+  { key: "azimuth", label: "Azimuth", unit: "° from N" },
+  { key: "module_efficiency_percent", label: "Module efficiency", unit: "%" },
+  { key: "system_losses_percent", label: "System losses", unit: "%" },
+];
+
+const DEFAULT_SYSTEM: Record<keyof SystemParameters, string> = {
+  kwp: "4",
+  tilt: "35",
+  azimuth: "180",
+  module_efficiency_percent: "20",
+  system_losses_percent: "14",
+};
+
+const STEP_LABELS: Record<AnalysisStep, string> = {
+  geocode: "Locating site...",
+  overpass: "Fetching obstacles from OpenStreetMap...",
+  climate: "Fetching 5-year climate data...",
+  "post-processing": "Computing shading and yield...",
+};
+
+// Building fill colours by height, lowest band first
+const HEIGHT_BANDS = [
+  { max: 6, color: "#fde68a", label: "< 6 m" },
+  { max: 10, color: "#fbbf24", label: "6–10 m" },
+  { max: 20, color: "#f97316", label: "10–20 m" },
+  { max: 40, color: "#dc2626", label: "20–40 m" },
+  { max: Infinity, color: "#7f1d1d", label: "40 m +" },
+];
+
+const heightColor = (height: number) => HEIGHT_BANDS.find((band) => height < band.max)!.color;
+
+// How obstacles are drawn by position relative to the site boundary
+const ZONE_STYLES: Record<ObstacleZone, { label: string; short: string; opacity: number; dashArray: string | null }> = {
+  inside: { label: "On the site", short: "Site", opacity: 1, dashArray: null },
+  buffer: { label: "In the buffer", short: "Buffer", opacity: 0.75, dashArray: "4 3" },
+  outside: { label: "Outside the site", short: "Outside", opacity: 0.35, dashArray: null },
+};
+
+const OBSTACLE_ZONES = Object.keys(ZONE_STYLES) as ObstacleZone[];
+
+const ObstacleIcon = ({ kind }: { kind: ObstacleKind }) => {
+  const { icon: Icon, color } = OBSTACLE_KIND_STYLES[kind];
+  return <Icon className="h-4 w-4 shrink-0" style={{ color }} />;
+};
+
+interface SolarAnalysisProps {
+  // Run this postcode as soon as the map is ready (from /site/:postcode)
+  initialPostcode?: string;
+  // Reopen this saved analysis instead of starting empty (from /analysis/:id)
+  savedAnalysisId?: string;
 }
 
-const SolarAnalysis = () => {
-  const [postcode, setPostcode] = useState("");
+const SolarAnalysis = ({ initialPostcode, savedAnalysisId }: SolarAnalysisProps) => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [postcode, setPostcode] = useState(initialPostcode ?? "");
   const [loading, setLoading] = useState(false);
-  const [status, setStatus] = useState("Enter a UK postcode to begin analysis.");
+  const [status, setStatus] = useState("Enter a UK postcode or draw a site to begin analysis.");
+  const parsedPostcode = useMemo(() => parseGeographicPostcode(postcode), [postcode]);
+  const [siteMode, setSiteMode] = useState<SiteMode>("postcode");
   const [analysisData, setAnalysisData] = useState<AnalysisData | null>(null);
+  const [generatingReport, setGeneratingReport] = useState(false);
+  const [buffer, setBuffer] = useState(String(SITE_BUFFER_LIMITS.default));
+  const [system, setSystem] = useState(() => readSystemQuery(searchParams, DEFAULT_SYSTEM));
+  const [mapView, setMapView] = useState<MapView | null>(() => readMapView(searchParams));
+  const [steps, setSteps] = useState<Array<{ step: AnalysisStep; duration_ms?: number }>>([]);
   const mapRef = useRef<HTMLDivElement>(null);
-  const mapInstanceRef = useRef<any>(null);
-  const markersRef = useRef<any[]>([]);
-  const boundaryRef = useRef<any>(null);
+  const mapInstanceRef = useRef<LeafletMap | null>(null);
+  // One layer group per overlay in the layer control; analyses draw into these
+  const overlaysRef = useRef<Record<OverlayId, LayerGroup> | null>(null);
+  const boundaryRef = useRef<GeoJSON | null>(null);
+  const [mapReady, setMapReady] = useState(false);
+  const drawing = useSiteDrawing(mapInstanceRef, mapReady, siteMode);
+  // Request body for the active input mode; null until a site is drawn
+  const siteBody = useMemo(
+    () => (siteMode === "postcode" ? { postcode } : drawing.siteBody),
+    [siteMode, postcode, drawing.siteBody]
+  );
+  const parsedSite = useMemo(() => (siteBody ? parseSite(siteBody) : null), [siteBody]);
+  const parsedBuffer = useMemo(() => parseBuffer(buffer), [buffer]);
+  // View from the link being opened; while set, drawing results won't refit the map
+  const linkedViewRef = useRef<MapView | null>(mapView);
+  // What is currently on screen ("site:<postcode>" or "analysis:<id>"), so URL
+  // changes we make ourselves don't trigger a reload
+  const loadedKeyRef = useRef<string | null>(null);
 
-  // Load Leaflet from CDN
+  // Initialize map once Leaflet has loaded from the CDN
   useEffect(() => {
-    // Check if Leaflet is already loaded
-    if (!(window as any).L) {
-      // Add CSS
-      const link = document.createElement("link");
-      link.rel = "stylesheet";
-      link.href = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.css";
-      document.head.appendChild(link);
-
-      // Add JS
-      const script = document.createElement("script");
-      script.src = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.js";
-      script.async = true;
-      document.head.appendChild(script);
-    }
-  }, []);
+    let cancelled = false;
+    let resizeObserver: ResizeObserver | null = null;
 
-  // Initialize map
-  useEffect(() => {
-    const initMap = () => {
-      if (mapRef.current && (window as any).L && !mapInstanceRef.current) {
-        const L = (window as any).L;
-        
-        // Initialize map centered on UK
-        const map = L.map(mapRef.current).setView([51.5074, -0.1278], 6);
-        
-        L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
-          attribution: '© OpenStreetMap contributors',
-          maxZoom: 19,
-        }).addTo(map);
+    loadMarkerCluster()
+      .then((L) => {
+        if (cancelled || !mapRef.current || mapInstanceRef.current) return;
+
+        // Initialize map on the linked view, or centered on UK
+        const linkedView = linkedViewRef.current;
+        const map = linkedView
+          ? L.map(mapRef.current).setView([linkedView.lat, linkedView.lng], linkedView.zoom)
+          : L.map(mapRef.current).setView([51.5074, -0.1278], 6);
+
+        map.on("moveend", () => {
+          const center = map.getCenter();
+          setMapView({ lat: center.lat, lng: center.lng, zoom: map.getZoom() });
+        });
+
+        // Basemaps and overlays as last chosen, with a control to change them
+        const preferences = readLayerPreferences();
+        const basemaps = Object.fromEntries(
+          (Object.entries(BASEMAPS) as Array<[BasemapId, Basemap]>).map(([id, { url, attribution, maxZoom }]) => [
+            id,
+            L.tileLayer(url, { attribution, maxZoom }),
+          ])
+        ) as Record<BasemapId, TileLayer>;
+        basemaps[preferences.basemap].addTo(map);
+
+        const overlays = Object.fromEntries(OVERLAYS.map(({ id }) => [id, L.layerGroup()])) as Record<OverlayId, LayerGroup>;
+        OVERLAYS.forEach(({ id }) => {
+          if (!preferences.hidden.includes(id)) overlays[id].addTo(map);
+        });
+        overlaysRef.current = overlays;
+
+        L.control
+          .layers(
+            Object.fromEntries(Object.entries(basemaps).map(([id, layer]) => [BASEMAPS[id as BasemapId].label, layer])),
+            Object.fromEntries(OVERLAYS.map(({ id, label }) => [label, overlays[id]])),
+            { position: "topright" }
+          )
+          .addTo(map);
+
+        const overlayId = (layer: unknown) => OVERLAYS.find(({ id }) => overlays[id] === layer)?.id;
+        map.on("baselayerchange", ({ layer }: { layer: unknown }) => {
+          preferences.basemap = (Object.keys(basemaps) as BasemapId[]).find((id) => basemaps[id] === layer) ?? preferences.basemap;
+          saveLayerPreferences(preferences);
+        });
+        map.on("overlayadd", ({ layer }: { layer: unknown }) => {
+          preferences.hidden = preferences.hidden.filter((id) => id !== overlayId(layer));
+          saveLayerPreferences(preferences);
+        });
+        map.on("overlayremove", ({ layer }: { layer: unknown }) => {
+          const id = overlayId(layer);
+          if (id && !preferences.hidden.includes(id)) preferences.hidden = [...preferences.hidden, id];
+          saveLayerPreferences(preferences);
+        });
 
         mapInstanceRef.current = map;
+        setMapReady(true);
 
         // Add ResizeObserver to handle map sizing issues
-        const resizeObserver = new ResizeObserver(() => {
+        resizeObserver = new ResizeObserver(() => {
           if (mapInstanceRef.current) {
             mapInstanceRef.current.invalidateSize();
           }
         });
+        resizeObserver.observe(mapRef.current);
+      })
+      .catch((error) => {
+        console.error("Error loading Leaflet:", error);
+        setStatus("Error: the map could not be loaded");
+      });
 
-        if (mapRef.current) {
-          resizeObserver.observe(mapRef.current);
-        }
-
-        // Cleanup
-        return () => {
-          resizeObserver.disconnect();
-        };
-      }
+    return () => {
+      cancelled = true;
+      resizeObserver?.disconnect();
     };
-
-    // Wait for Leaflet to load
-    const checkLeaflet = setInterval(() => {
-      if ((window as any).L) {
-        clearInterval(checkLeaflet);
-        initMap();
-      }
-    }, 100);
-
-    return () => clearInterval(checkLeaflet);
   }, []);
 
   // Clear previous map data
   const clearMapData = () => {
-    if (mapInstanceRef.current && (window as any).L) {
-      // Remove markers
-      markersRef.current.forEach(marker => marker.remove());
-      markersRef.current = [];
-
-      // Remove boundary
-      if (boundaryRef.current) {
-        boundaryRef.current.remove();
-        boundaryRef.current = null;
-      }
+    if (mapInstanceRef.current && overlaysRef.current) {
+      // Empty every overlay, keeping the groups (and their visibility) in place
+      Object.values(overlaysRef.current).forEach((overlay) => overlay.clearLayers());
+      boundaryRef.current = null;
     }
   };
 
-  // Update map with new data
-  const updateMap = (data: AnalysisData) => {
-    if (!mapInstanceRef.current || !(window as any).L) return;
+  // Draw the site boundary on its own, so it can appear as soon as geocoding finishes
+  const drawBoundary = (boundary: AnalysisData["boundary"]) => {
+    const L = globalLeaflet();
+    if (!mapInstanceRef.current || !L) return;
 
-    const L = (window as any).L;
     clearMapData();
 
     // Add boundary with enhanced styling
-    if (data.boundary) {
+    if (boundary) {
       try {
-        boundaryRef.current = L.geoJSON(data.boundary, {
+        boundaryRef.current = L.geoJSON(boundary, {
           style: {
             color: "#3b82f6",
             weight: 3,
@@ -126,86 +239,287 @@ const SolarAnalysis = () => {
             fillOpacity: 0.15,
             opacity: 0.8,
           },
-        }).addTo(mapInstanceRef.current);
+        }).addTo(overlaysRef.current.boundary);
 
-        // Fit map to boundary with padding
-        const bounds = boundaryRef.current.getBounds();
-        mapInstanceRef.current.fitBounds(bounds, {
-          padding: [50, 50],
-          maxZoom: 16
-        });
+        // Fit map to boundary with padding, unless a link asked for a specific view
+        if (!linkedViewRef.current) {
+          const bounds = boundaryRef.current.getBounds();
+          mapInstanceRef.current.fitBounds(bounds, {
+            padding: [50, 50],
+            maxZoom: 16
+          });
+        }
 
         console.log('Boundary added to map');
       } catch (error) {
         console.error('Error adding boundary:', error);
       }
     }
+  };
+
+  // Update map with new data
+  const updateMap = (data: AnalysisData) => {
+    const L = globalLeaflet();
+    if (!mapInstanceRef.current || !L) return;
 
-    // Create custom icons
-    const createIcon = (color: string, iconHtml: string) => {
+    drawBoundary(data.boundary);
+
+    // Create custom icons, one per zone: dashed borders in the buffer, faded outside
+    const createIcon = (color: string, iconHtml: string, zone: ObstacleZone) => {
+      const { opacity, dashArray } = ZONE_STYLES[zone];
       return L.divIcon({
-        html: `<div style="background-color: ${color}; width: 24px; height: 24px; border-radius: 50%; display: flex; align-items: center; justify-content: center; border: 2px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3);">${iconHtml}</div>`,
+        html: `<div style="background-color: ${color}; opacity: ${opacity}; width: 24px; height: 24px; border-radius: 50%; display: flex; align-items: center; justify-content: center; border: 2px ${dashArray ? "dashed" : "solid"} white; box-shadow: 0 2px 4px rgba(0,0,0,0.3);">${iconHtml}</div>`,
         className: "",
         iconSize: [24, 24],
       });
     };
+    const zoneIcons = (color: string, iconHtml: string) =>
+      Object.fromEntries(OBSTACLE_ZONES.map((zone) => [zone, createIcon(color, iconHtml, zone)]));
+
+    const kindIcons = Object.fromEntries(
+      OBSTACLE_KINDS.map((kind) => [kind, zoneIcons(OBSTACLE_KIND_STYLES[kind].color, OBSTACLE_KIND_STYLES[kind].glyph)])
+    );
+
+    // Nearby markers merge into a count bubble in the marker's colour
+    const createClusterGroup = (color: string) =>
+      L.markerClusterGroup({
+        showCoverageOnHover: false,
+        maxClusterRadius: 40,
+        chunkedLoading: true,
+        iconCreateFunction: (cluster: { getChildCount: () => number }) =>
+          L.divIcon({
+            html: `<div style="background-color: ${color}; width: 32px; height: 32px; border-radius: 50%; display: flex; align-items: center; justify-content: center; border: 2px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3); color: white; font-size: 12px; font-weight: 600;">${cluster.getChildCount()}</div>`,
+            className: "",
+            iconSize: [32, 32],
+          }),
+      });
 
-    const buildingIcon = createIcon("#ef4444", "🏢");
-    const treeIcon = createIcon("#22c55e", "🌳");
-    const poleIcon = createIcon("#f59e0b", "⚡");
+    // Add building footprints, coloured by height (point-only buildings as
+    // circles), on a canvas so thousands of them stay responsive
+    const buildingStyle = (feature: BuildingFeature) => {
+      const { opacity, dashArray } = ZONE_STYLES[feature.properties.zone ?? "inside"];
+      return {
+        color: "#7c2d12",
+        weight: 1,
+        opacity,
+        dashArray,
+        fillColor: heightColor(feature.properties.height_m),
+        fillOpacity: 0.75 * opacity,
+      };
+    };
+    const renderer = L.canvas();
+    // Leaflet hands GeoJSON options on to every layer it creates, but the
+    // typings leave `renderer` out of GeoJSONOptions
+    const onCanvas = { renderer };
+    const overlays = overlaysRef.current;
+    const buildingLayer = L.geoJSON(data.obstacles.buildings, {
+      ...onCanvas,
+      style: buildingStyle,
+      pointToLayer: (feature: BuildingFeature, latlng: LatLng) =>
+        L.circleMarker(latlng, { ...buildingStyle(feature), radius: 6, renderer }),
+      onEachFeature: (feature: BuildingFeature, layer: Layer) => {
+        const { height_m, height_source, zone, centroid, osm_type, osm_id, tags } = feature.properties;
+        const source = { height: "tagged", levels: "from levels", default: "assumed" }[height_source];
+        layer.bindTooltip(`${height_m.toFixed(1)} m (${source})${zone ? `, ${ZONE_STYLES[zone].label.toLowerCase()}` : ""}`);
+        layer.bindPopup(() =>
+          obstaclePopupHtml({ kind: "building", ...centroid, height_m, height_source, osm_type, osm_id, tags }, data)
+        );
+      },
+    });
+    overlays.building.addLayer(buildingLayer);
 
-    // Add building markers
-    data.obstacles.buildings.forEach(({ lat, lon }) => {
-      const marker = L.marker([lat, lon], { icon: buildingIcon }).addTo(mapInstanceRef.current);
-      markersRef.current.push(marker);
+    // Add tree and pole markers, clustered per type
+    (["tree", "pole"] as const).forEach((kind) => {
+      const layer = createClusterGroup(OBSTACLE_KIND_STYLES[kind].color);
+      layer.addLayers(
+        data.obstacles[kind === "tree" ? "trees" : "poles"].map((point) =>
+          L.marker([point.lat, point.lon], { icon: kindIcons[kind][point.zone ?? "inside"] }).bindPopup(() =>
+            obstaclePopupHtml({ kind, ...point }, data)
+          )
+        )
+      );
+      overlays[kind].addLayer(layer);
     });
 
-    // Add tree markers
-    data.obstacles.trees.forEach(({ lat, lon }) => {
-      const marker = L.marker([lat, lon], { icon: treeIcon }).addTo(mapInstanceRef.current);
-      markersRef.current.push(marker);
+    // Add the other taxonomy categories: point features as clustered markers,
+    // hedges, walls and woods as lines and areas in the category colour
+    const describe = ({ category, height_m, height_source, zone }: ObstacleFeature) =>
+      `${OBSTACLE_KIND_STYLES[category].label}: ${height_m.toFixed(1)} m (${height_source === "height" ? "tagged" : "assumed"})` +
+      (zone ? `, ${ZONE_STYLES[zone].label.toLowerCase()}` : "");
+    OBSTACLE_CATEGORIES.filter((category) => category !== "tree" && category !== "pole").forEach((category) => {
+      const features = data.obstacles.other.filter((feature) => feature.category === category);
+      const points = features.filter((feature) => feature.geometry.type === "Point");
+      const shapes = features.filter((feature) => feature.geometry.type !== "Point");
+      const { color } = OBSTACLE_KIND_STYLES[category];
+
+      if (points.length > 0) {
+        const pointLayer = createClusterGroup(color);
+        pointLayer.addLayers(
+          points.map((feature) =>
+            L.marker([feature.lat, feature.lon], { icon: kindIcons[category][feature.zone ?? "inside"] })
+              .bindTooltip(describe(feature))
+              .bindPopup(() => obstaclePopupHtml({ kind: feature.category, ...feature }, data))
+          )
+        );
+        overlays[category].addLayer(pointLayer);
+      }
+
+      if (shapes.length > 0) {
+        const shapeLayer = L.geoJSON(
+          shapes.map((feature) => ({ type: "Feature", geometry: feature.geometry, properties: feature })),
+          {
+            ...onCanvas,
+            style: ({ properties }: { properties: ObstacleFeature }) => {
+              const { opacity, dashArray } = ZONE_STYLES[properties.zone ?? "inside"];
+              return { color, weight: 3, opacity, dashArray, fillColor: color, fillOpacity: 0.25 * opacity };
+            },
+            onEachFeature: ({ properties }: { properties: ObstacleFeature }, layer: Layer) =>
+              layer
+                .bindTooltip(describe(properties))
+                .bindPopup(() => obstaclePopupHtml({ kind: properties.category, ...properties }, data)),
+          }
+        );
+        overlays[category].addLayer(shapeLayer);
+      }
     });
 
-    // Add pole markers
-    data.obstacles.poles.forEach(({ lat, lon }) => {
-      const marker = L.marker([lat, lon], { icon: poleIcon }).addTo(mapInstanceRef.current);
-      markersRef.current.push(marker);
+    // Sight lines from the site centre to the worst offenders, heavier for
+    // bigger losses
+    const centre: LatLngTuple = [data.location.lat, data.location.lon];
+    data.shading.obstacles.forEach(({ type, lat, lon, loss_percent }) => {
+      const { color } = OBSTACLE_KIND_STYLES[type];
+      overlays.shading.addLayer(
+        L.polyline([centre, [lat, lon]], { color, weight: 2 + Math.min(loss_percent, 4), opacity: 0.8, dashArray: "6 4" })
+      );
+      overlays.shading.addLayer(L.circleMarker([lat, lon], { radius: 7, color, weight: 2, fillOpacity: 0.2 }));
     });
+    overlays.shading.addLayer(
+      L.circleMarker(centre, { radius: 5, color: "#dc2626", weight: 2, fillColor: "#dc2626", fillOpacity: 0.9 })
+    );
+
+    // Permanent captions for the site and the obstacles that shade it
+    const label = (latlng: LatLngTuple, text: string) =>
+      L.circleMarker(latlng, { radius: 0, opacity: 0, interactive: false }).bindTooltip(text, {
+        permanent: true,
+        direction: "top",
+        offset: [0, -8],
+      });
+    overlays.labels.addLayer(label(centre, data.site.label));
+    data.shading.obstacles.forEach(({ type, lat, lon, height_m, loss_percent }) =>
+      overlays.labels.addLayer(
+        label([lat, lon], `${OBSTACLE_KIND_STYLES[type].label}: ${height_m.toFixed(0)} m, ${loss_percent.toFixed(2)}% lost`)
+      )
+    );
   };
 
-  const handleAnalyze = async () => {
-    if (!postcode.trim()) {
-      toast.error("Please enter a UK postcode");
+  // Show a finished analysis, restoring the inputs that produced it
+  const showAnalysis = useEventCallback((data: AnalysisData) => {
+    setAnalysisData(data);
+    setPostcode(data.postcode ?? "");
+    setSiteMode(data.site.kind);
+    drawing.restore(data);
+    setBuffer(String(data.site.buffer_m));
+    setSystem(
+      Object.fromEntries(
+        Object.entries(data.energy.parameters).map(([key, value]) => [key, String(value)])
+      ) as Record<keyof SystemParameters, string>
+    );
+    updateMap(data);
+  });
+
+  // Reopen a saved analysis once the map exists to draw it on
+  useEffect(() => {
+    if (!savedAnalysisId || !mapReady) return;
+    if (loadedKeyRef.current === `analysis:${savedAnalysisId}`) return;
+    loadedKeyRef.current = `analysis:${savedAnalysisId}`;
+
+    let cancelled = false;
+    setLoading(true);
+    setSteps([]);
+    setStatus("Loading saved analysis...");
+
+    fetchAnalysis(savedAnalysisId)
+      .then((data) => {
+        if (cancelled) return;
+        showAnalysis(data);
+        setStatus(`Showing saved analysis for ${data.site.label}`);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+        setStatus(`Error: ${errorMessage}`);
+        toast.error(`Failed to load saved analysis: ${errorMessage}`);
+      })
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [savedAnalysisId, mapReady, showAnalysis]);
+
+  // Mirror the map view and system inputs into the query string of permalinks
+  useEffect(() => {
+    if (!initialPostcode && !savedAnalysisId) return;
+    const query = buildQuery(system, mapView).toString();
+    if (query !== searchParams.toString()) setSearchParams(query, { replace: true });
+  }, [initialPostcode, savedAnalysisId, system, mapView, searchParams, setSearchParams]);
+
+  // `body` holds the site as the analyze function takes it: a postcode, a
+  // point and radius, or a polygon. `fromLink` runs keep the map view the link
+  // asked for.
+  const analyze = async (body: Record<string, unknown> | null = siteBody, fromLink = false) => {
+    if (!body) {
+      toast.error(siteMode === "point" ? "Click the map to pick a point" : "Draw and close an area on the map");
+      return;
+    }
+    const parsed = parseSite(body);
+    if (parsed.error !== undefined) {
+      toast.error(parsed.reason === "empty" ? "Please enter a UK postcode" : parsed.error);
       return;
     }
+    if (parsedBuffer.error !== undefined) {
+      toast.error(parsedBuffer.error);
+      return;
+    }
+    if (parsed.site.kind === "postcode") {
+      body = { postcode: parsed.site.postcode };
+      setPostcode(parsed.site.postcode);
+      setSiteMode("postcode");
+    }
+    if (!fromLink) linkedViewRef.current = null;
 
     setLoading(true);
-    setStatus("Geocoding postcode...");
+    setStatus("Starting analysis...");
+    setSteps([]);
     setAnalysisData(null);
 
     try {
-      const functionUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze`;
-      
-      setStatus("Fetching location data...");
-      const response = await fetch(functionUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const data = await streamAnalysis({ ...body, buffer_m: parsedBuffer.buffer_m, system, zones: true }, {
+        onProgress: (event) => {
+          if (event.status === "started") {
+            setStatus(STEP_LABELS[event.step]);
+            setSteps((prev) => [...prev, { step: event.step }]);
+            return;
+          }
+
+          setSteps((prev) =>
+            prev.map((entry) => (entry.step === event.step ? { ...entry, duration_ms: event.duration_ms } : entry))
+          );
+          if (event.step === "geocode" && event.data.boundary) {
+            drawBoundary(event.data.boundary);
+          }
         },
-        body: JSON.stringify({ postcode })
       });
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        throw new Error(errorData.error || `HTTP error ${response.status}`);
-      }
-
-      setStatus("Analyzing obstacles and weather...");
-      const data: AnalysisData = await response.json();
-      
       setAnalysisData(data);
       updateMap(data);
-      setStatus(`Analysis complete for ${postcode}`);
+      setStatus(`Analysis complete for ${data.site.label}`);
+
+      // Point the URL at this result so it can be shared; unsaved drawn sites
+      // have no permalink
+      const path = analysisPath(data);
+      loadedKeyRef.current = data.id ? `analysis:${data.id}` : data.postcode ? `site:${data.postcode}` : null;
+      navigate(path ? { pathname: path, search: window.location.search } : "/", { replace: fromLink });
       toast.success("Location analyzed successfully!");
       setLoading(false);
 
@@ -217,6 +531,54 @@ const SolarAnalysis = () => {
       setLoading(false);
     }
   };
+  // Stable, so the link effect below reruns only when the link or map changes
+  const handleAnalyze = useEventCallback(analyze);
+
+  // Run a /site/:postcode link once the map exists
+  useEffect(() => {
+    if (!initialPostcode || !mapReady) return;
+    const parsed = parseGeographicPostcode(initialPostcode);
+    if (parsed.valid && loadedKeyRef.current === `site:${parsed.postcode}`) return;
+
+    handleAnalyze({ postcode: initialPostcode }, true);
+  }, [initialPostcode, mapReady, handleAnalyze]);
+
+  const handleDownloadReport = async () => {
+    if (!analysisData) return;
+    setGeneratingReport(true);
+    try {
+      await downloadReport(analysisData);
+    } catch (error) {
+      console.error('Report error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast.error(`Failed to generate report: ${errorMessage}`);
+    } finally {
+      setGeneratingReport(false);
+    }
+  };
+
+  const scanButton = (
+    <Button
+      onClick={() => handleAnalyze()}
+      disabled={loading || !parsedSite || parsedSite.error !== undefined || parsedBuffer.error !== undefined}
+      className="px-6"
+    >
+      {loading ? (
+        <>
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Scanning
+        </>
+      ) : (
+        "Scan Area"
+      )}
+    </Button>
+  );
+
+  const counts = analysisData?.category_counts ?? null;
+  // Per-zone columns for analyses that have them; the buffer only when one was used
+  const visibleZones = analysisData?.zone_counts
+    ? OBSTACLE_ZONES.filter((zone) => zone !== "buffer" || analysisData.site.buffer_m > 0)
+    : [];
 
   return (
     <div className="flex h-screen overflow-hidden">
@@ -224,43 +586,154 @@ const SolarAnalysis = () => {
       <div className="w-[400px] bg-sidebar-bg border-r border-map-border overflow-y-auto">
         <div className="p-6 space-y-6">
           {/* Header */}
-          <div>
-            <h1 className="text-3xl font-bold text-foreground mb-2">
-              Solar Site Analysis
-            </h1>
-            <p className="text-muted-foreground">
-              AI-Powered Obstacle & Weather Assessment
-            </p>
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">
+                Solar Site Analysis
+              </h1>
+              <p className="text-muted-foreground">
+                AI-Powered Obstacle & Weather Assessment
+              </p>
+            </div>
+            <div className="flex">
+              <Button variant="ghost" size="icon" asChild title="Batch analysis from CSV">
+                <Link to="/batch">
+                  <FileSpreadsheet className="h-5 w-5" />
+                </Link>
+              </Button>
+              <Button variant="ghost" size="icon" asChild title="Analysis history">
+                <Link to="/history">
+                  <History className="h-5 w-5" />
+                </Link>
+              </Button>
+            </div>
           </div>
 
           {/* Input Section */}
+          <Tabs value={siteMode} onValueChange={(value) => setSiteMode(value as SiteMode)} className="space-y-3">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="postcode">Postcode</TabsTrigger>
+              <TabsTrigger value="point">Point</TabsTrigger>
+              <TabsTrigger value="polygon">Area</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="postcode" className="space-y-3 mt-0">
+              <label className="text-sm font-medium text-foreground">
+                Enter UK Postcode
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  type="text"
+                  placeholder="e.g., SW1A 0AA"
+                  value={postcode}
+                  onChange={(e) => setPostcode(e.target.value.toUpperCase())}
+                  onKeyPress={(e) => e.key === "Enter" && handleAnalyze()}
+                  aria-invalid={postcode.trim() !== "" && !parsedPostcode.valid}
+                  className={`flex-1 ${postcode.trim() && !parsedPostcode.valid ? "border-destructive focus-visible:ring-destructive" : ""}`}
+                />
+                {scanButton}
+              </div>
+              {postcode.trim() !== "" && (
+                <p className={`text-xs ${parsedPostcode.valid ? "text-muted-foreground" : "text-destructive"}`}>
+                  {parsedPostcode.valid === false
+                    ? parsedPostcode.message
+                    : parsedPostcode.kind === "outward"
+                      ? `${parsedPostcode.postcode} is an outward code only: the whole district will be analysed`
+                      : `Will analyse ${parsedPostcode.postcode}`}
+                </p>
+              )}
+            </TabsContent>
+
+            <TabsContent value="point" className="space-y-3 mt-0">
+              <p className="text-xs text-muted-foreground">
+                Click a roof on the map to analyse the area around it.
+              </p>
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-1">
+                  <span className="text-xs text-muted-foreground">
+                    Radius (m, {SITE_RADIUS_LIMITS.min}–{SITE_RADIUS_LIMITS.max})
+                  </span>
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    value={drawing.radius}
+                    onChange={(e) => drawing.setRadius(e.target.value)}
+                    className="h-10"
+                  />
+                </div>
+                {scanButton}
+              </div>
+              <p className={`text-xs ${parsedSite?.error ? "text-destructive" : "text-muted-foreground"}`}>
+                {!drawing.point
+                  ? "No point picked yet"
+                  : parsedSite?.error ?? `Will analyse ${drawing.point.lat.toFixed(5)}, ${drawing.point.lon.toFixed(5)}`}
+              </p>
+            </TabsContent>
+
+            <TabsContent value="polygon" className="space-y-3 mt-0">
+              <p className="text-xs text-muted-foreground">
+                Click the map to outline the site, then click the first corner or Finish to close it.
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={drawing.finishPolygon}
+                  disabled={drawing.polygonClosed || drawing.vertices.length < 3}
+                >
+                  Finish
+                </Button>
+                <Button variant="outline" onClick={drawing.clear} disabled={drawing.vertices.length === 0}>
+                  Clear
+                </Button>
+                <div className="flex-1" />
+                {scanButton}
+              </div>
+              <p className={`text-xs ${parsedSite?.error ? "text-destructive" : "text-muted-foreground"}`}>
+                {drawing.vertices.length === 0
+                  ? "No area drawn yet"
+                  : !drawing.polygonClosed
+                    ? `${drawing.vertices.length} corner${drawing.vertices.length === 1 ? "" : "s"} placed`
+                    : parsedSite?.error ?? `Will analyse the ${drawing.vertices.length}-corner area`}
+              </p>
+            </TabsContent>
+          </Tabs>
+
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">
+              Neighbour buffer (m, {SITE_BUFFER_LIMITS.min}–{SITE_BUFFER_LIMITS.max})
+            </span>
+            <Input
+              type="number"
+              inputMode="decimal"
+              value={buffer}
+              onChange={(e) => setBuffer(e.target.value)}
+              className="h-8"
+            />
+            <p className={`text-xs ${parsedBuffer.error ? "text-destructive" : "text-muted-foreground"}`}>
+              {parsedBuffer.error ?? "Obstacles this close outside the site boundary still count as shading neighbours"}
+            </p>
+          </div>
+
+          {/* System Parameters */}
           <div className="space-y-3">
             <label className="text-sm font-medium text-foreground">
-              Enter UK Postcode
+              PV System
             </label>
-            <div className="flex gap-2">
-              <Input
-                type="text"
-                placeholder="e.g., SW1A 0AA"
-                value={postcode}
-                onChange={(e) => setPostcode(e.target.value.toUpperCase())}
-                onKeyPress={(e) => e.key === "Enter" && handleAnalyze()}
-                className="flex-1"
-              />
-              <Button
-                onClick={handleAnalyze}
-                disabled={loading}
-                className="px-6"
-              >
-                {loading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Scanning
-                  </>
-                ) : (
-                  "Scan Area"
-                )}
-              </Button>
+            <div className="grid grid-cols-2 gap-2">
+              {SYSTEM_FIELDS.map(({ key, label, unit }) => (
+                <div key={key} className="space-y-1">
+                  <span className="text-xs text-muted-foreground">
+                    {label} ({unit})
+                  </span>
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    value={system[key]}
+                    onChange={(e) => setSystem((prev) => ({ ...prev, [key]: e.target.value }))}
+                    className="h-8"
+                  />
+                </div>
+              ))}
             </div>
           </div>
 
@@ -268,45 +741,177 @@ const SolarAnalysis = () => {
           <Card className="p-4 bg-status-bg border-border">
             <h2 className="text-lg font-semibold mb-2 text-foreground">Status</h2>
             <p className="text-sm text-muted-foreground">{status}</p>
+            {analysisData && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                {analysisData.geocoding ? (
+                  <>
+                    Located via {analysisData.geocoding.provider} (
+                    {Math.round(analysisData.geocoding.confidence * 100)}% confidence)
+                    {[analysisData.geocoding.admin.admin_district, analysisData.geocoding.admin.region]
+                      .filter(Boolean)
+                      .map((name) => ` · ${name}`)
+                      .join("")}
+                  </>
+                ) : analysisData.site.kind === "point" ? (
+                  `Picked point with a ${analysisData.site.radius_m} m radius`
+                ) : (
+                  "Drawn site boundary"
+                )}
+                {analysisData.meta.cache.hits > 0 &&
+                  `. ${analysisData.meta.cache.hits} of ${
+                    analysisData.meta.cache.hits + analysisData.meta.cache.misses
+                  } upstream responses served from cache`}
+              </p>
+            )}
+            {steps.length > 0 && (
+              <ul className="mt-3 space-y-1">
+                {steps.map(({ step, duration_ms }) => (
+                  <li key={step} className="flex items-center justify-between text-xs">
+                    <span className="flex items-center gap-2 text-foreground">
+                      {duration_ms === undefined && <Loader2 className="h-3 w-3 animate-spin" />}
+                      {STEP_LABELS[step].replace("...", "")}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {duration_ms === undefined ? "running" : `${(duration_ms / 1000).toFixed(1)}s`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </Card>
 
           {/* Results Section */}
           {analysisData && (
             <div className="space-y-4">
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={handleDownloadReport} disabled={generatingReport}>
+                  {generatingReport ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <FileText className="mr-2 h-4 w-4" />
+                  )}
+                  Download report
+                </Button>
+                <ExportMenu data={analysisData} />
+              </div>
+
               {/* Obstacles Summary */}
               <Card className="p-4">
                 <h2 className="text-lg font-semibold mb-3 text-foreground">
                   Obstacles Detected
                 </h2>
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      <Building2 className="h-4 w-4 text-destructive" />
-                      <span className="text-sm text-foreground">Buildings</span>
-                    </div>
-                    <span className="text-sm font-semibold text-foreground">
-                      {analysisData.obstacles.buildings.length}
-                    </span>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      <Trees className="h-4 w-4 text-green-500" />
-                      <span className="text-sm text-foreground">Trees</span>
-                    </div>
-                    <span className="text-sm font-semibold text-foreground">
-                      {analysisData.obstacles.trees.length}
-                    </span>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      <Zap className="h-4 w-4 text-amber-500" />
-                      <span className="text-sm text-foreground">Utility Poles</span>
-                    </div>
-                    <span className="text-sm font-semibold text-foreground">
-                      {analysisData.obstacles.poles.length}
-                    </span>
-                  </div>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-1.5 px-2 font-medium text-foreground">Type</th>
+                      <th className="text-right py-1.5 px-2 font-medium text-foreground">Total</th>
+                      {visibleZones.map((zone) => (
+                        <th key={zone} className="text-right py-1.5 px-2 font-medium text-foreground">
+                          {ZONE_STYLES[zone].short}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {OBSTACLE_KINDS.map((kind) => (
+                      <tr
+                        key={kind}
+                        className={`border-b border-border/50 last:border-0 ${counts[kind] === 0 ? "opacity-50" : ""}`}
+                      >
+                        <td className="py-1.5 px-2">
+                          <div className="flex items-center gap-2">
+                            <ObstacleIcon kind={kind} />
+                            <span className="text-sm text-foreground">{OBSTACLE_KIND_STYLES[kind].label}</span>
+                          </div>
+                        </td>
+                        <td className="py-1.5 px-2 text-right text-sm font-semibold text-foreground">{counts[kind]}</td>
+                        {visibleZones.map((zone) => (
+                          <td key={zone} className="py-1.5 px-2 text-right text-muted-foreground">
+                            {analysisData.zone_counts[zone][kind] ?? 0}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {visibleZones.includes("buffer") && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    The buffer extends {analysisData.site.buffer_m} m beyond the site boundary.
+                  </p>
+                )}
+                {analysisData.zone_counts === null && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Zones unavailable: this analysis wasn't zoned (batch runs skip it) or no outline was found for the
+                    site, so obstacles on it can't be told apart from the rest of the area searched.
+                  </p>
+                )}
+              </Card>
+
+              {/* Energy Yield */}
+              <Card className="p-4">
+                <h2 className="text-lg font-semibold mb-3 text-foreground">
+                  Estimated Energy Yield
+                </h2>
+                <div className="flex items-baseline justify-between mb-1">
+                  <span className="text-sm text-foreground">Annual generation</span>
+                  <span className="text-2xl font-bold text-foreground">
+                    {Math.round(analysisData.energy.annual_kwh).toLocaleString()} kWh
+                  </span>
                 </div>
+                <p className="text-xs text-muted-foreground">
+                  {analysisData.energy.specific_yield_kwh_kwp.toFixed(0)} kWh/kWp for a{" "}
+                  {analysisData.energy.parameters.kwp} kWp array (~{analysisData.energy.array_area_m2.toFixed(0)} m²)
+                  at {analysisData.energy.parameters.tilt}° tilt facing {analysisData.energy.parameters.azimuth}°,
+                  after temperature, shading and {analysisData.energy.parameters.system_losses_percent}% system losses
+                </p>
+                <YieldSpread variability={analysisData.variability} />
+              </Card>
+
+              {/* Shading Summary */}
+              <Card className="p-4">
+                <h2 className="text-lg font-semibold mb-3 text-foreground">
+                  Shading Analysis
+                </h2>
+                <div className="flex items-baseline justify-between mb-1">
+                  <span className="text-sm text-foreground">Annual direct sun lost</span>
+                  <span className="text-2xl font-bold text-foreground">
+                    {analysisData.shading.annual_loss_percent.toFixed(1)}%
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground mb-3">
+                  Clear-sky estimate from the site centre, hourly on a representative day per month
+                </p>
+                {analysisData.shading.obstacles.length > 0 ? (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold text-foreground border-b border-border pb-1">
+                      Worst offenders
+                    </h3>
+                    {analysisData.shading.obstacles.map((obstacle, idx) => (
+                      <div key={`${obstacle.lat}-${obstacle.lon}-${idx}`} className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <ObstacleIcon kind={obstacle.type} />
+                          <span className="text-xs text-foreground capitalize">{obstacle.type}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {obstacle.height_m.toFixed(0)}m tall, {obstacle.distance_m.toFixed(0)}m {compassPoint(obstacle.bearing)}
+                          </span>
+                        </div>
+                        <span className="text-xs font-semibold text-foreground">
+                          {obstacle.loss_percent.toFixed(2)}%
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No obstacles shade the site.</p>
+                )}
+              </Card>
+
+              {/* Sun Path */}
+              <Card className="p-4">
+                <h2 className="text-lg font-semibold mb-3 text-foreground">
+                  Sun Path
+                </h2>
+                <SunPathChart data={analysisData} />
               </Card>
 
               {/* Climate Data */}
@@ -315,46 +920,55 @@ const SolarAnalysis = () => {
                   Historical Climate Data
                 </h2>
                 <p className="text-xs text-muted-foreground mb-3">
-                  Based on 5-year historical average (2020-2025)
+                  Monthly climate over the last five years, from the Open-Meteo archive.
                 </p>
-                <div className="space-y-3">
-                  {/* Yearly repeating pattern for next 5 years */}
-                  {[2025, 2026, 2027, 2028, 2029].map((year) => (
-                    <div key={year} className="space-y-2">
-                      <h3 className="text-sm font-semibold text-foreground border-b border-border pb-1">
-                        {year}
-                      </h3>
-                      <div className="max-h-[300px] overflow-y-auto">
-                        <table className="w-full text-xs">
-                          <thead className="sticky top-0 bg-card">
-                            <tr className="border-b border-border">
-                              <th className="text-left py-1.5 px-2 font-medium text-foreground">Month</th>
-                              <th className="text-right py-1.5 px-2 font-medium text-foreground">Temp</th>
-                              <th className="text-right py-1.5 px-2 font-medium text-foreground">Rain</th>
-                              <th className="text-right py-1.5 px-2 font-medium text-foreground">Sun</th>
-                            </tr>
-                          </thead>
-                          <tbody>
-                            {analysisData.weather.map((month, idx) => (
-                              <tr key={`${year}-${idx}`} className="border-b border-border/50 last:border-0">
-                                <td className="py-1.5 px-2 text-foreground">{month.month}</td>
-                                <td className="py-1.5 px-2 text-right text-muted-foreground">
-                                  {month.temperature_2m_mean.toFixed(1)}°C
-                                </td>
-                                <td className="py-1.5 px-2 text-right text-muted-foreground">
-                                  {month.precipitation_sum.toFixed(1)}mm
-                                </td>
-                                <td className="py-1.5 px-2 text-right text-muted-foreground">
-                                  {month.sunshine_duration.toFixed(1)}h
-                                </td>
-                              </tr>
-                            ))}
-                          </tbody>
-                        </table>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <ClimateCharts
+                  weather={analysisData.weather}
+                  climateYears={analysisData.climate_years}
+                  variability={analysisData.variability}
+                />
+
+                <h3 className="text-sm font-semibold text-foreground border-b border-border pb-1 mt-4 mb-2">
+                  Irradiation and yield
+                </h3>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Five-year average in kWh/m²: global horizontal (GHI), direct normal (DNI), diffuse (DHI)
+                  and on the array plane (POA).
+                </p>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-1.5 px-2 font-medium text-foreground">Month</th>
+                      <th className="text-right py-1.5 px-2 font-medium text-foreground">GHI</th>
+                      <th className="text-right py-1.5 px-2 font-medium text-foreground">DNI</th>
+                      <th className="text-right py-1.5 px-2 font-medium text-foreground">DHI</th>
+                      <th className="text-right py-1.5 px-2 font-medium text-foreground">POA</th>
+                      <th className="text-right py-1.5 px-2 font-medium text-foreground">Yield</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analysisData.weather.map((month, idx) => (
+                      <tr key={month.month} className="border-b border-border/50 last:border-0">
+                        <td className="py-1.5 px-2 text-foreground">{month.month}</td>
+                        <td className="py-1.5 px-2 text-right text-muted-foreground">
+                          {month.shortwave_radiation_sum.toFixed(0)}
+                        </td>
+                        <td className="py-1.5 px-2 text-right text-muted-foreground">
+                          {month.direct_normal_irradiance_sum.toFixed(0)}
+                        </td>
+                        <td className="py-1.5 px-2 text-right text-muted-foreground">
+                          {month.diffuse_radiation_sum.toFixed(0)}
+                        </td>
+                        <td className="py-1.5 px-2 text-right text-muted-foreground">
+                          {month.plane_of_array_sum.toFixed(0)}
+                        </td>
+                        <td className="py-1.5 px-2 text-right text-muted-foreground">
+                          {analysisData.energy.monthly[idx].energy_kwh.toFixed(0)}kWh
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </Card>
             </div>
           )}
@@ -368,12 +982,62 @@ const SolarAnalysis = () => {
           className="absolute inset-0 w-full h-full bg-muted"
           style={{ zIndex: 0 }}
         />
+        {analysisData && (
+          <div className="absolute bottom-6 right-4 z-10 bg-card/90 backdrop-blur-sm p-3 rounded-lg shadow-lg">
+            <h3 className="text-xs font-semibold text-foreground mb-1.5">Building height</h3>
+            <div className="space-y-1">
+              {HEIGHT_BANDS.map((band) => (
+                <div key={band.label} className="flex items-center gap-2">
+                  <span className="h-3 w-3 rounded-sm border border-border" style={{ backgroundColor: band.color }} />
+                  <span className="text-xs text-muted-foreground">{band.label}</span>
+                </div>
+              ))}
+            </div>
+            <h3 className="text-xs font-semibold text-foreground mt-2.5 mb-1.5">Obstacles</h3>
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+              {OBSTACLE_KINDS.map((kind) => (
+                <div key={kind} className="flex items-center gap-2">
+                  <span
+                    className="h-4 w-4 rounded-full flex items-center justify-center text-[9px] leading-none"
+                    style={{ backgroundColor: OBSTACLE_KIND_STYLES[kind].color }}
+                  >
+                    {OBSTACLE_KIND_STYLES[kind].glyph}
+                  </span>
+                  <span className="text-xs text-muted-foreground">{OBSTACLE_KIND_STYLES[kind].label}</span>
+                </div>
+              ))}
+            </div>
+            {analysisData.zone_counts && (
+              <>
+                <h3 className="text-xs font-semibold text-foreground mt-2.5 mb-1.5">Obstacle position</h3>
+                <div className="space-y-1">
+                  {OBSTACLE_ZONES.map((zone) => (
+                    <div key={zone} className="flex items-center gap-2">
+                      <span
+                        className="h-3 w-3 rounded-sm border border-[#7c2d12] bg-[#f97316]"
+                        style={{
+                          opacity: ZONE_STYLES[zone].opacity,
+                          borderStyle: ZONE_STYLES[zone].dashArray ? "dashed" : "solid",
+                        }}
+                      />
+                      <span className="text-xs text-muted-foreground">{ZONE_STYLES[zone].label}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
         {!analysisData && !loading && (
           <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
             <div className="bg-card/90 backdrop-blur-sm p-6 rounded-lg shadow-lg text-center">
               <MapPin className="h-12 w-12 mx-auto mb-3 text-primary" />
               <p className="text-muted-foreground">
-                Enter a postcode to view the map
+                {siteMode === "postcode"
+                  ? "Enter a postcode to view the map"
+                  : siteMode === "point"
+                    ? "Zoom in and click a roof to pick a point"
+                    : "Zoom in and click to outline the site"}
               </p>
             </div>
           </div>
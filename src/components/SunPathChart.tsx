@@ -0,0 +1,251 @@
+import { useMemo, useState } from "react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { OBSTACLE_KIND_STYLES } from "@/lib/obstacle-categories";
+import { compassPoint } from "@/lib/obstacle-popup";
+import {
+  KEY_DATES,
+  MONTHLY_DATES,
+  siteSilhouettes,
+  sunTrack,
+  TRACK_STEP_MINUTES,
+  type SunPathDate,
+  type TrackPoint,
+} from "@/lib/sun-path";
+import type { Silhouette } from "@shared/shading.ts";
+import type { AnalysisData } from "@/types/analysis";
+
+interface SunPathChartProps {
+  data: AnalysisData;
+}
+
+const SIZE = 320;
+const CENTRE = SIZE / 2;
+// Radius of the horizon, leaving room for the compass labels
+const RADIUS = 136;
+
+const ELEVATION_RINGS = [15, 30, 45, 60, 75];
+const BLOCKED_COLOR = "#dc2626";
+
+const KEY_DATE_COLORS: Record<string, string> = {
+  "june-solstice": "#f97316",
+  equinox: "#eab308",
+  "december-solstice": "#3b82f6",
+};
+
+// Warm for summer months, cool for winter ones
+const trackColor = (date: SunPathDate) =>
+  KEY_DATE_COLORS[date.id] ?? `hsl(${Math.round(30 + (Math.abs(date.month - 5.5) / 5.5) * 180)} 80% 50%)`;
+
+// Stereographic projection with north up and the zenith in the centre
+const project = (azimuth: number, elevation: number) => {
+  const r = RADIUS * Math.tan(((90 - Math.max(elevation, 0)) * Math.PI) / 360);
+  const angle = (azimuth * Math.PI) / 180;
+  return { x: CENTRE + r * Math.sin(angle), y: CENTRE - r * Math.cos(angle) };
+};
+
+const pathThrough = (points: Array<{ azimuth: number; elevation: number }>) =>
+  points
+    .map(({ azimuth, elevation }, index) => {
+      const { x, y } = project(azimuth, elevation);
+      return `${index === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join("");
+
+// The obstacle's span of azimuths, from the horizon up to its top
+const silhouettePath = ({ bearing, halfWidth, elevation }: Silhouette) => {
+  const steps = Math.max(2, Math.ceil(halfWidth * 2));
+  const azimuths = Array.from({ length: steps + 1 }, (_, index) => bearing - halfWidth + (index * 2 * halfWidth) / steps);
+  return `${pathThrough([
+    ...azimuths.map((azimuth) => ({ azimuth, elevation: 0 })),
+    ...[...azimuths].reverse().map((azimuth) => ({ azimuth, elevation })),
+  ])}Z`;
+};
+
+// Runs of consecutive blocked points, drawn over the track
+const blockedRuns = (track: TrackPoint[]) =>
+  track.reduce<TrackPoint[][]>((runs, point, index) => {
+    if (!point.blocker) return runs;
+    if (index > 0 && track[index - 1].blocker) runs[runs.length - 1].push(point);
+    else runs.push([point]);
+    return runs;
+  }, []);
+
+const clock = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+const hours = (points: number) => ((points * TRACK_STEP_MINUTES) / 60).toFixed(1);
+
+// Polar sun-path diagram: the sun's track on the chosen dates over the
+// obstacles that shade the site, with the hours they block in red
+const SunPathChart = ({ data }: SunPathChartProps) => {
+  const [view, setView] = useState<"key" | "monthly">("key");
+  const [hovered, setHovered] = useState<{ date: SunPathDate; point: TrackPoint } | null>(null);
+
+  const silhouettes = useMemo(
+    () => siteSilhouettes(data).sort((a, b) => b.elevation - a.elevation),
+    [data]
+  );
+  const { horizon } = data;
+  const tracks = useMemo(
+    () =>
+      (view === "key" ? KEY_DATES : MONTHLY_DATES).map((date) => ({
+        date,
+        color: trackColor(date),
+        points: sunTrack(data, date, silhouettes),
+      })),
+    [data, silhouettes, view]
+  );
+
+  return (
+    <div className="space-y-3">
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={view}
+        onValueChange={(value) => value && setView(value as "key" | "monthly")}
+        className="justify-start"
+      >
+        <ToggleGroupItem value="key">Solstices and equinoxes</ToggleGroupItem>
+        <ToggleGroupItem value="monthly">Each month</ToggleGroupItem>
+      </ToggleGroup>
+
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-[360px] mx-auto block" onMouseLeave={() => setHovered(null)}>
+        {/* Sky grid: elevation rings every 15° and azimuth spokes every 30° */}
+        <circle cx={CENTRE} cy={CENTRE} r={RADIUS} className="fill-muted/40 stroke-border" />
+        {ELEVATION_RINGS.map((elevation) => {
+          const { y } = project(0, elevation);
+          return (
+            <g key={elevation}>
+              <circle cx={CENTRE} cy={CENTRE} r={CENTRE - y} className="fill-none stroke-border" strokeDasharray="2 3" />
+              <text x={CENTRE + 2} y={y - 2} className="fill-muted-foreground" fontSize={8}>
+                {elevation}°
+              </text>
+            </g>
+          );
+        })}
+        {Array.from({ length: 12 }, (_, index) => index * 30).map((azimuth) => {
+          const edge = project(azimuth, 0);
+          const angle = (azimuth * Math.PI) / 180;
+          return (
+            <g key={azimuth}>
+              <line x1={CENTRE} y1={CENTRE} x2={edge.x} y2={edge.y} className="stroke-border" strokeDasharray="2 3" />
+              <text
+                x={CENTRE + (RADIUS + 12) * Math.sin(angle)}
+                y={CENTRE - (RADIUS + 12) * Math.cos(angle) + 3}
+                textAnchor="middle"
+                className="fill-muted-foreground"
+                fontSize={azimuth % 90 === 0 ? 10 : 8}
+                fontWeight={azimuth % 90 === 0 ? 600 : 400}
+              >
+                {azimuth % 90 === 0 ? compassPoint(azimuth) : `${azimuth}°`}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Obstacles as horizon silhouettes */}
+        {silhouettes.map((silhouette, index) => (
+          <path
+            key={`${silhouette.ref ?? index}`}
+            d={silhouettePath(silhouette)}
+            fill={OBSTACLE_KIND_STYLES[silhouette.type].color}
+            fillOpacity={0.45}
+          >
+            <title>
+              {`${OBSTACLE_KIND_STYLES[silhouette.type].label}: ${silhouette.distance.toFixed(0)} m ${compassPoint(
+                silhouette.bearing
+              )}, up to ${silhouette.elevation.toFixed(0)}°`}
+            </title>
+          </path>
+        ))}
+
+        {/* Their combined outline: the horizon profile */}
+        <path
+          d={`${pathThrough(horizon.elevations.map((elevation, index) => ({ azimuth: index * horizon.bin_deg, elevation })))}Z`}
+          fill="none"
+          stroke="hsl(var(--foreground))"
+          strokeWidth={1}
+          strokeOpacity={0.6}
+        />
+
+        {/* Sun tracks, with blocked stretches over them and a dot each hour */}
+        {tracks.map(({ date, color, points }) => (
+          <g key={date.id}>
+            <path d={pathThrough(points)} fill="none" stroke={color} strokeWidth={1.5} />
+            {blockedRuns(points).map((run) => (
+              <path
+                key={run[0].minutes}
+                d={pathThrough(run)}
+                fill="none"
+                stroke={BLOCKED_COLOR}
+                strokeWidth={3}
+                strokeLinecap="round"
+              />
+            ))}
+            {points
+              .filter((point) => point.minutes % 60 === 0)
+              .map((point) => {
+                const { x, y } = project(point.azimuth, point.elevation);
+                return (
+                  <circle
+                    key={point.minutes}
+                    cx={x}
+                    cy={y}
+                    r={hovered?.point === point ? 4.5 : 2.5}
+                    fill={point.blocker ? BLOCKED_COLOR : color}
+                    stroke="white"
+                    strokeWidth={0.75}
+                    onMouseEnter={() => setHovered({ date, point })}
+                  />
+                );
+              })}
+          </g>
+        ))}
+      </svg>
+
+      <p className="text-xs text-muted-foreground min-h-[2rem]">
+        {hovered
+          ? `${hovered.date.label}, ${clock(hovered.point.minutes)} UTC: sun at ${hovered.point.azimuth.toFixed(
+              0
+            )}° (${compassPoint(hovered.point.azimuth)}), ${hovered.point.elevation.toFixed(0)}° up — ${
+              hovered.point.blocker
+                ? `blocked by ${OBSTACLE_KIND_STYLES[hovered.point.blocker.type].label.toLowerCase()} ${hovered.point.blocker.distance.toFixed(
+                    0
+                  )} m away`
+                : "in view"
+            }`
+          : "Hover over an hour dot for the sun's position. Red stretches are blocked by an obstacle."}
+      </p>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-border">
+            <th className="text-left py-1.5 px-2 font-medium text-foreground">Date</th>
+            <th className="text-right py-1.5 px-2 font-medium text-foreground">Daylight (h)</th>
+            <th className="text-right py-1.5 px-2 font-medium text-foreground">Blocked (h)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tracks.map(({ date, color, points }) => (
+            <tr key={date.id} className="border-b border-border/50 last:border-0">
+              <td className="py-1.5 px-2 text-foreground">
+                <span className="inline-block h-2 w-3 mr-2 rounded-sm align-middle" style={{ backgroundColor: color }} />
+                {date.label}
+              </td>
+              <td className="py-1.5 px-2 text-right text-muted-foreground">{hours(points.length)}</td>
+              <td className="py-1.5 px-2 text-right text-muted-foreground">
+                {hours(points.filter((point) => point.blocker).length)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-muted-foreground">
+        Stereographic projection seen from the site centre, horizon at the edge and zenith in the middle. Times are UTC.
+      </p>
+    </div>
+  );
+};
+
+export default SunPathChart;
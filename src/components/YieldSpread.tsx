@@ -0,0 +1,73 @@
+import type { AnalysisData } from "@/types/analysis";
+
+interface YieldSpreadProps {
+  variability: AnalysisData["variability"];
+}
+
+const kwh = (value: number) => `${Math.round(value).toLocaleString()} kWh`;
+
+// How much generation moves between historical years: P50/P90 and the
+// extremes for the year, then per month
+const YieldSpread = ({ variability }: YieldSpreadProps) => {
+  const { annual_kwh: annual, monthly, yearly_energy } = variability;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <h3 className="text-sm font-semibold text-foreground border-b border-border pb-1">Year-to-year spread</h3>
+      {annual ? (
+        <>
+          <div className="grid grid-cols-4 gap-2 text-center">
+            {[
+              { label: "P50", value: annual.mean },
+              { label: "P90", value: annual.p90 },
+              { label: "Worst year", value: annual.min },
+              { label: "Best year", value: annual.max },
+            ].map(({ label, value }) => (
+              <div key={label}>
+                <div className="text-xs text-muted-foreground">{label}</div>
+                <div className="text-sm font-semibold text-foreground">{kwh(value)}</div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            From {annual.years} complete year{annual.years === 1 ? "" : "s"} (
+            {yearly_energy
+              .filter((year) => year.annual_kwh !== null)
+              .map((year) => `${year.year}: ${kwh(year.annual_kwh!)}`)
+              .join(", ")}
+            ). P90 is exceeded in nine years out of ten; σ = {kwh(annual.std)}.
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">No complete historical year to compare.</p>
+      )}
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-border">
+            <th className="text-left py-1.5 px-2 font-medium text-foreground">Month</th>
+            <th className="text-right py-1.5 px-2 font-medium text-foreground">P50 (kWh)</th>
+            <th className="text-right py-1.5 px-2 font-medium text-foreground">P90 (kWh)</th>
+            <th className="text-right py-1.5 px-2 font-medium text-foreground">Range (kWh)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {monthly.map(({ month, energy_kwh: spread }) => (
+            <tr key={month} className="border-b border-border/50 last:border-0">
+              <td className="py-1.5 px-2 text-foreground">{month}</td>
+              <td className="py-1.5 px-2 text-right text-muted-foreground">{spread ? spread.mean.toFixed(0) : "—"}</td>
+              <td className="py-1.5 px-2 text-right text-muted-foreground">
+                {spread ? Math.max(spread.p90, 0).toFixed(0) : "—"}
+              </td>
+              <td className="py-1.5 px-2 text-right text-muted-foreground">
+                {spread ? `${spread.min.toFixed(0)}–${spread.max.toFixed(0)}` : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default YieldSpread;
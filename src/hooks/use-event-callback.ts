@@ -0,0 +1,12 @@
+import { useCallback, useLayoutEffect, useRef } from "react";
+
+// A function with a stable identity that always runs the latest `callback`.
+// Effects can list it as a dependency and still fire only on their own
+// inputs, while the callback reads current state when it runs.
+export const useEventCallback = <Args extends unknown[], Result>(callback: (...args: Args) => Result) => {
+  const callbackRef = useRef(callback);
+  useLayoutEffect(() => {
+    callbackRef.current = callback;
+  });
+  return useCallback((...args: Args) => callbackRef.current(...args), []);
+};
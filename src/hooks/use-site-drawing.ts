@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useRef, useState, type MutableRefObject } from "react";
+import type { LatLngTuple, LayerGroup, LeafletMouseEvent, Map as LeafletMap } from "leaflet";
+import { boundaryGeometry } from "@/lib/export";
+import { globalLeaflet } from "@/lib/leaflet";
+import { SITE_RADIUS_LIMITS } from "@shared/site.ts";
+import type { AnalysisData } from "@/types/analysis";
+
+export type SiteMode = "postcode" | "point" | "polygon";
+
+const DRAFT_STYLE = { color: "#8b5cf6", weight: 2, dashArray: "6 4", fillColor: "#8b5cf6", fillOpacity: 0.1 };
+
+// Map drawing for point and polygon sites. Clicks on the Leaflet map pick the
+// point or add polygon vertices depending on `mode`; clicking the first vertex
+// (or `finishPolygon`) closes the polygon. `siteBody` is the analyze request
+// body for the current drawing, or null while it is incomplete.
+export const useSiteDrawing = (mapInstanceRef: MutableRefObject<LeafletMap | null>, mapReady: boolean, mode: SiteMode) => {
+  const [point, setPoint] = useState<{ lat: number; lon: number } | null>(null);
+  const [radius, setRadius] = useState(String(SITE_RADIUS_LIMITS.default));
+  const [vertices, setVertices] = useState<Array<{ lat: number; lon: number }>>([]);
+  const [polygonClosed, setPolygonClosed] = useState(false);
+  const draftRef = useRef<LayerGroup | null>(null);
+  // The click handler is registered once, so it reads the mode through a ref
+  const modeRef = useRef(mode);
+  modeRef.current = mode;
+  const polygonClosedRef = useRef(polygonClosed);
+  polygonClosedRef.current = polygonClosed;
+
+  useEffect(() => {
+    if (!mapReady) return;
+    const map = mapInstanceRef.current;
+
+    const onClick = (event: LeafletMouseEvent) => {
+      const clicked = { lat: event.latlng.lat, lon: event.latlng.lng };
+      if (modeRef.current === "point") {
+        setPoint(clicked);
+      } else if (modeRef.current === "polygon") {
+        // A click after closing starts a new polygon
+        if (polygonClosedRef.current) {
+          setPolygonClosed(false);
+          setVertices([clicked]);
+        } else {
+          setVertices((prev) => [...prev, clicked]);
+        }
+      }
+    };
+
+    map.on("click", onClick);
+    return () => {
+      map.off("click", onClick);
+    };
+  }, [mapReady, mapInstanceRef]);
+
+  // Crosshair cursor while a drawing tool is active
+  useEffect(() => {
+    if (!mapReady) return;
+    mapInstanceRef.current.getContainer().style.cursor = mode === "postcode" ? "" : "crosshair";
+  }, [mapReady, mapInstanceRef, mode]);
+
+  // Redraw the draft shape whenever it changes
+  useEffect(() => {
+    const L = globalLeaflet();
+    if (!mapReady || !L) return;
+
+    draftRef.current?.remove();
+    draftRef.current = L.layerGroup().addTo(mapInstanceRef.current);
+
+    const radiusMetres = Number(radius);
+    if (mode === "point" && point) {
+      L.circleMarker([point.lat, point.lon], { ...DRAFT_STYLE, dashArray: undefined, radius: 5, fillOpacity: 1 })
+        .addTo(draftRef.current);
+      if (Number.isFinite(radiusMetres) && radiusMetres > 0) {
+        L.circle([point.lat, point.lon], { ...DRAFT_STYLE, radius: radiusMetres }).addTo(draftRef.current);
+      }
+    }
+
+    if (mode === "polygon" && vertices.length > 0) {
+      const latLngs = vertices.map(({ lat, lon }): LatLngTuple => [lat, lon]);
+      (polygonClosed ? L.polygon(latLngs, DRAFT_STYLE) : L.polyline(latLngs, DRAFT_STYLE)).addTo(draftRef.current);
+
+      vertices.forEach(({ lat, lon }, index) => {
+        const vertex = L.circleMarker([lat, lon], {
+          ...DRAFT_STYLE,
+          dashArray: undefined,
+          radius: index === 0 && !polygonClosed ? 7 : 4,
+          fillOpacity: 1,
+          // Keeps a click on the first vertex from also adding a new one
+          bubblingMouseEvents: false,
+        }).addTo(draftRef.current);
+
+        if (index === 0 && !polygonClosed) {
+          vertex.bindTooltip("Click to close the area");
+          vertex.on("click", () => {
+            if (vertices.length >= 3) setPolygonClosed(true);
+          });
+        }
+      });
+    }
+  }, [mapReady, mapInstanceRef, mode, point, radius, vertices, polygonClosed]);
+
+  const siteBody = useMemo((): Record<string, unknown> | null => {
+    if (mode === "point") {
+      return point ? { lat: point.lat, lon: point.lon, radius_m: Number(radius) } : null;
+    }
+    if (mode === "polygon") {
+      if (!polygonClosed || vertices.length < 3) return null;
+      const ring = vertices.map(({ lat, lon }) => [lon, lat]);
+      return { polygon: { type: "Polygon", coordinates: [[...ring, ring[0]]] } };
+    }
+    return null;
+  }, [mode, point, radius, vertices, polygonClosed]);
+
+  const finishPolygon = () => {
+    if (vertices.length >= 3) setPolygonClosed(true);
+  };
+
+  const clear = () => {
+    setPoint(null);
+    setVertices([]);
+    setPolygonClosed(false);
+  };
+
+  // Puts a saved point or polygon site back into the drawing tools
+  const restore = (data: AnalysisData) => {
+    if (data.site.kind === "point") {
+      setPoint(data.location);
+      setRadius(String(data.site.radius_m));
+    } else if (data.site.kind === "polygon") {
+      const ring = (boundaryGeometry(data.boundary)?.coordinates as number[][][] | undefined)?.[0] ?? [];
+      setVertices(ring.slice(0, -1).map(([lon, lat]) => ({ lat, lon })));
+      setPolygonClosed(true);
+    }
+  };
+
+  return { point, radius, setRadius, vertices, polygonClosed, siteBody, finishPolygon, clear, restore };
+};
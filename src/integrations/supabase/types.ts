@@ -14,7 +14,69 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      analyses: {
+        Row: {
+          boundary: Json
+          created_at: string
+          id: string
+          location: Json
+          obstacles: Json
+          parameters: Json
+          postcode: string | null
+          results: Json
+          site: Json
+          weather: Json
+        }
+        Insert: {
+          boundary: Json
+          created_at?: string
+          id?: string
+          location: Json
+          obstacles: Json
+          parameters: Json
+          postcode?: string | null
+          results: Json
+          site: Json
+          weather: Json
+        }
+        Update: {
+          boundary?: Json
+          created_at?: string
+          id?: string
+          location?: Json
+          obstacles?: Json
+          parameters?: Json
+          postcode?: string | null
+          results?: Json
+          site?: Json
+          weather?: Json
+        }
+        Relationships: []
+      }
+      upstream_cache: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          key: string
+          source: string
+          value: Json
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          key: string
+          source: string
+          value: Json
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          key?: string
+          source?: string
+          value?: Json
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,76 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { AnalysisData, ObstacleKind } from "@/types/analysis";
+
+export type AnalysisRow = Tables<"analyses">;
+
+const HISTORY_PAGE_SIZE = 50;
+
+// What History lists for a saved analysis: a few fields picked out of the row,
+// leaving the obstacle, weather and result payloads in the database
+export type AnalysisSummary = {
+  id: string;
+  postcode: string | null;
+  created_at: string;
+  label: string;
+  area: string | null;
+  category_counts: Record<ObstacleKind, number>;
+  annual_loss_percent: number | null;
+  annual_kwh: number | null;
+};
+
+const SUMMARY_COLUMNS = [
+  "id",
+  "postcode",
+  "created_at",
+  "label:site->>label",
+  "area:results->geocoding->admin->>admin_district",
+  "category_counts:results->category_counts",
+  "annual_loss_percent:results->shading->annual_loss_percent",
+  "annual_kwh:results->energy->annual_kwh",
+].join(",");
+
+// Rebuilds the analyze response from a stored row
+const rowToAnalysisData = (row: AnalysisRow): AnalysisData => {
+  const results = row.results as unknown as Pick<
+    AnalysisData,
+    "geocoding" | "category_counts" | "zone_counts" | "weather_units" | "climate_years" | "variability" | "shading" | "horizon" | "energy" | "meta"
+  >;
+  return {
+    id: row.id,
+    postcode: row.postcode,
+    site: row.site as unknown as AnalysisData["site"],
+    location: row.location as unknown as AnalysisData["location"],
+    boundary: row.boundary as unknown as AnalysisData["boundary"],
+    obstacles: row.obstacles as unknown as AnalysisData["obstacles"],
+    weather: row.weather as unknown as AnalysisData["weather"],
+    ...results,
+  };
+};
+
+// Most recent analyses first, optionally filtered by postcode prefix or any
+// part of the site label (which is how point and drawn sites are named)
+export const listAnalyses = async (search: string): Promise<AnalysisSummary[]> => {
+  let query = supabase
+    .from("analyses")
+    .select(SUMMARY_COLUMNS)
+    .order("created_at", { ascending: false })
+    .limit(HISTORY_PAGE_SIZE);
+
+  // Quoted, so commas in coordinate labels don't split the filter
+  const term = search.trim().toUpperCase().replace(/[%_*"\\]/g, "");
+  if (term) {
+    query = query.or(`postcode.ilike."${term}%",site->>label.ilike."%${term}%"`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return data as unknown as AnalysisSummary[];
+};
+
+export const fetchAnalysis = async (id: string): Promise<AnalysisData> => {
+  const { data, error } = await supabase.from("analyses").select("*").eq("id", id).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Saved analysis not found");
+  return rowToAnalysisData(data);
+};
@@ -0,0 +1,101 @@
+import type { AnalysisData, BatchRowEvent, ProgressEvent, SystemParameters } from "@/types/analysis";
+
+interface StreamHandlers {
+  onProgress: (event: ProgressEvent) => void;
+}
+
+// Splits a Server-Sent Events buffer into complete frames, returning the
+// unconsumed remainder
+const parseFrames = (buffer: string) => {
+  const frames: Array<{ event: string; data: string }> = [];
+  const chunks = buffer.split("\n\n");
+  const remainder = chunks.pop() ?? "";
+
+  chunks.forEach((chunk) => {
+    let event = "message";
+    const data: string[] = [];
+    chunk.split("\n").forEach((line) => {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+    });
+    if (data.length > 0) frames.push({ event, data: data.join("\n") });
+  });
+
+  return { frames, remainder };
+};
+
+// POSTs to an edge function in streaming mode and hands each frame to
+// `onFrame` until it returns something other than undefined. EventSource can't
+// POST, so the stream is read by hand.
+const postEventStream = async <T>(
+  functionName: string,
+  body: unknown,
+  onFrame: (event: string, payload: unknown) => T | undefined
+): Promise<T | undefined> => {
+  const functionUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${functionName}`;
+
+  const response = await fetch(functionUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(errorData.error || `HTTP error ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return undefined;
+
+    const { frames, remainder } = parseFrames(buffer + value);
+    buffer = remainder;
+
+    for (const frame of frames) {
+      const result = onFrame(frame.event, JSON.parse(frame.data));
+      if (result !== undefined) {
+        await reader.cancel();
+        return result;
+      }
+    }
+  }
+};
+
+// Runs the analyze function, forwarding progress events and resolving with the
+// final result
+export const streamAnalysis = async (body: unknown, handlers: StreamHandlers): Promise<AnalysisData> => {
+  const result = await postEventStream<AnalysisData>("analyze", body, (event, payload) => {
+    if (event === "progress") handlers.onProgress(payload as ProgressEvent);
+    else if (event === "result") return payload as AnalysisData;
+    else if (event === "error") {
+      const { error, status } = payload as { error?: string; status?: number };
+      throw new Error(error || `HTTP error ${status}`);
+    }
+    return undefined;
+  });
+
+  if (!result) throw new Error("Analysis stream ended without a result");
+  return result;
+};
+
+// Runs the analyze-batch function, forwarding each row update
+export const streamBatch = async (
+  body: { postcodes: string[]; system?: Partial<SystemParameters> },
+  onRow: (row: BatchRowEvent) => void
+): Promise<{ completed: number; failed: number }> => {
+  const done = await postEventStream<{ completed: number; failed: number }>("analyze-batch", body, (event, payload) => {
+    if (event === "row") onRow(payload as BatchRowEvent);
+    else if (event === "done") return payload as { completed: number; failed: number };
+    return undefined;
+  });
+
+  if (!done) throw new Error("Batch stream ended before every site finished");
+  return done;
+};
@@ -0,0 +1,258 @@
+// File exports of an analysis: the site boundary and obstacles as GeoJSON and
+// KML, and CSVs of the obstacles and the monthly climate. All of them use the
+// same property and column names and carry the same metadata.
+
+import { toCsv } from "@/lib/csv";
+import { OBSTACLE_KIND_STYLES } from "@/lib/obstacle-categories";
+import type { AnalysisData, ObstacleKind, ObstacleZone } from "@/types/analysis";
+
+export const EXPORT_SOURCE = "© OpenStreetMap contributors (Overpass API); Open-Meteo historical weather archive";
+
+export interface ExportMetadata {
+  postcode: string | null;
+  site: string;
+  source: string;
+  retrieved_at: string;
+}
+
+export type ExportFormat = "geojson" | "kml" | "obstacles-csv" | "climate-csv" | "horizon-pvgis" | "horizon-pvsyst";
+
+export interface ObstacleRecord {
+  kind: ObstacleKind;
+  osm_type: string | null;
+  osm_id: number | null;
+  lat: number;
+  lon: number;
+  height_m: number;
+  height_source: "height" | "levels" | "default";
+  zone: ObstacleZone | null;
+}
+
+export type Geometry = { type: string; coordinates: unknown };
+
+const OBSTACLE_COLUMNS: Array<keyof ObstacleRecord> = [
+  "kind",
+  "osm_type",
+  "osm_id",
+  "lat",
+  "lon",
+  "height_m",
+  "height_source",
+  "zone",
+];
+
+const CLIMATE_COLUMNS = [
+  "temperature_2m_mean",
+  "precipitation_sum",
+  "precipitation_monthly_total",
+  "sunshine_duration",
+  "sunshine_monthly_total",
+  "shortwave_radiation_sum",
+  "direct_normal_irradiance_sum",
+  "diffuse_radiation_sum",
+  "plane_of_array_sum",
+] as const;
+
+const METADATA_COLUMNS: Array<keyof ExportMetadata> = ["postcode", "site", "source", "retrieved_at"];
+
+export const exportMetadata = (data: AnalysisData): ExportMetadata => ({
+  postcode: data.postcode,
+  site: data.site.label,
+  source: EXPORT_SOURCE,
+  retrieved_at: data.meta.retrieved_at,
+});
+
+const obstacleRecords = (data: AnalysisData): ObstacleRecord[] => [
+  ...data.obstacles.buildings.features.map(({ properties }) => ({
+    kind: "building" as const,
+    osm_type: properties.osm_type,
+    osm_id: properties.osm_id,
+    lat: properties.centroid.lat,
+    lon: properties.centroid.lon,
+    height_m: properties.height_m,
+    height_source: properties.height_source,
+    zone: properties.zone ?? null,
+  })),
+  ...(["tree", "pole"] as const).flatMap((kind) =>
+    data.obstacles[kind === "tree" ? "trees" : "poles"].map((point) => ({
+      kind,
+      osm_type: point.osm_type,
+      osm_id: point.osm_id,
+      lat: point.lat,
+      lon: point.lon,
+      height_m: point.height_m,
+      height_source: point.height_source,
+      zone: point.zone ?? null,
+    }))
+  ),
+  ...data.obstacles.other.map(({ category, osm_type, osm_id, lat, lon, height_m, height_source, zone }) => ({
+    kind: category,
+    osm_type,
+    osm_id,
+    lat,
+    lon,
+    height_m,
+    height_source,
+    zone: zone ?? null,
+  })),
+];
+
+// A geometry collection has no coordinates of its own, so it is skipped
+export const boundaryGeometry = (boundary: AnalysisData["boundary"]): Geometry | null => {
+  const geometry = !boundary ? null : "geometry" in boundary ? boundary.geometry : boundary;
+  return geometry && "coordinates" in geometry ? geometry : null;
+};
+
+// Buildings and the other categories keep their OSM geometry; trees and
+// poles are points
+const obstacleGeometries = (data: AnalysisData): Geometry[] => [
+  ...data.obstacles.buildings.features.map((feature) => feature.geometry),
+  ...[...data.obstacles.trees, ...data.obstacles.poles].map(({ lat, lon }) => ({ type: "Point", coordinates: [lon, lat] })),
+  ...data.obstacles.other.map((feature) => feature.geometry),
+];
+
+export const toGeoJson = (data: AnalysisData) => {
+  const boundary = boundaryGeometry(data.boundary);
+  const geometries = obstacleGeometries(data);
+
+  return JSON.stringify(
+    {
+      type: "FeatureCollection",
+      metadata: exportMetadata(data),
+      features: [
+        ...(boundary ? [{ type: "Feature", geometry: boundary, properties: { kind: "boundary", label: data.site.label } }] : []),
+        ...obstacleRecords(data).map((record, index) => ({ type: "Feature", geometry: geometries[index], properties: record })),
+      ],
+    },
+    null,
+    2
+  );
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, (char) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[char]);
+
+const kmlCoordinates = (positions: number[][]) => positions.map(([lon, lat]) => `${lon},${lat}`).join(" ");
+
+// Points and lines map directly; polygons and multipolygons become
+// (multi-)geometries of outer and inner rings; anything else is skipped
+const kmlGeometry = (geometry: Geometry): string => {
+  const polygon = (rings: number[][][]) =>
+    `<Polygon>${rings
+      .map((ring, index) => {
+        const tag = index === 0 ? "outerBoundaryIs" : "innerBoundaryIs";
+        return `<${tag}><LinearRing><coordinates>${kmlCoordinates(ring)}</coordinates></LinearRing></${tag}>`;
+      })
+      .join("")}</Polygon>`;
+
+  if (geometry.type === "Point") return `<Point><coordinates>${kmlCoordinates([geometry.coordinates as number[]])}</coordinates></Point>`;
+  if (geometry.type === "LineString") {
+    return `<LineString><coordinates>${kmlCoordinates(geometry.coordinates as number[][])}</coordinates></LineString>`;
+  }
+  if (geometry.type === "Polygon") return polygon(geometry.coordinates as number[][][]);
+  if (geometry.type === "MultiPolygon") {
+    return `<MultiGeometry>${(geometry.coordinates as number[][][][]).map(polygon).join("")}</MultiGeometry>`;
+  }
+  return "";
+};
+
+const kmlData = (values: Record<string, string | number | null>) =>
+  `<ExtendedData>${Object.entries(values)
+    .map(([name, value]) => `<Data name="${name}"><value>${escapeXml(String(value ?? ""))}</value></Data>`)
+    .join("")}</ExtendedData>`;
+
+// KML colours are aabbggrr; obstacles use their map colours
+const kmlColor = (hex: string) => `ff${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`;
+
+const KML_STYLES: Record<ObstacleKind | "boundary", string> = {
+  boundary: "ff0000ff",
+  ...(Object.fromEntries(
+    Object.entries(OBSTACLE_KIND_STYLES).map(([kind, { color }]) => [kind, kmlColor(color)])
+  ) as Record<ObstacleKind, string>),
+};
+
+export const toKml = (data: AnalysisData) => {
+  const metadata = exportMetadata(data);
+  const boundary = boundaryGeometry(data.boundary);
+  const geometries = obstacleGeometries(data);
+
+  const placemark = (name: string, style: string, values: Record<string, string | number | null>, geometry: Geometry) =>
+    `<Placemark><name>${escapeXml(name)}</name><styleUrl>#${style}</styleUrl>${kmlData(values)}${kmlGeometry(geometry)}</Placemark>`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "<Document>",
+    `<name>${escapeXml(`Solar site analysis: ${metadata.site}`)}</name>`,
+    kmlData({ ...metadata }),
+    ...Object.entries(KML_STYLES).map(
+      ([style, color]) =>
+        `<Style id="${style}"><LineStyle><color>${color}</color><width>2</width></LineStyle><PolyStyle><color>40${color.slice(2)}</color></PolyStyle><IconStyle><color>${color}</color></IconStyle></Style>`
+    ),
+    ...(boundary ? [placemark("Site boundary", "boundary", { kind: "boundary", label: data.site.label }, boundary)] : []),
+    ...obstacleRecords(data).map((record, index) =>
+      placemark(`${record.kind} (${record.height_m.toFixed(1)} m)`, record.kind, { ...record }, geometries[index])
+    ),
+    "</Document>",
+    "</kml>",
+  ].join("\n");
+};
+
+export const obstaclesCsv = (data: AnalysisData) => {
+  const metadata = exportMetadata(data);
+  return toCsv(
+    [...METADATA_COLUMNS, ...OBSTACLE_COLUMNS],
+    obstacleRecords(data).map((record) => [
+      ...METADATA_COLUMNS.map((column) => metadata[column]),
+      ...OBSTACLE_COLUMNS.map((column) => record[column]),
+    ])
+  );
+};
+
+// Field names as in the analyze response, with the modelled yield alongside
+export const climateCsv = (data: AnalysisData) => {
+  const metadata = exportMetadata(data);
+  return toCsv(
+    [...METADATA_COLUMNS, "month", ...CLIMATE_COLUMNS, "energy_kwh"],
+    data.weather.map((month, index) => [
+      ...METADATA_COLUMNS.map((column) => metadata[column]),
+      month.month,
+      ...CLIMATE_COLUMNS.map((column) => Number(month[column].toFixed(2))),
+      Number(data.energy.monthly[index].energy_kwh.toFixed(1)),
+    ])
+  );
+};
+
+// PVGIS user horizon file: one height (degrees) per line, for equally spaced
+// directions starting at north and going clockwise. The format has no room
+// for metadata.
+export const horizonPvgis = (data: AnalysisData) =>
+  `${data.horizon.elevations.map((elevation) => elevation.toFixed(1)).join("\n")}\n`;
+
+// PVsyst horizon import: azimuth,height pairs in PVsyst's convention (0° is
+// south, east negative, west positive), from -180° round to 180° so the line
+// closes
+export const horizonPvsyst = (data: AnalysisData) => {
+  const { bin_deg, elevations } = data.horizon;
+  // North-based azimuth a is a - 180 in PVsyst's terms, so the profile starts
+  // due north at -180°
+  const points = elevations.map((elevation, index) => ({ azimuth: index * bin_deg - 180, elevation }));
+  return [
+    "Azimuth [°],Height [°]",
+    ...[...points, { ...points[0], azimuth: 180 }].map(({ azimuth, elevation }) => `${azimuth},${elevation.toFixed(1)}`),
+    "",
+  ].join("\n");
+};
+
+// e.g. "solar-SW1A-1AA-obstacles.csv"
+export const exportFileName = (data: AnalysisData, format: ExportFormat) => {
+  const base = `solar-${data.site.label.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "")}`;
+  return {
+    geojson: `${base}.geojson`,
+    kml: `${base}.kml`,
+    "obstacles-csv": `${base}-obstacles.csv`,
+    "climate-csv": `${base}-climate.csv`,
+    "horizon-pvgis": `${base}-horizon-pvgis.txt`,
+    "horizon-pvsyst": `${base}-horizon-pvsyst.csv`,
+  }[format];
+};
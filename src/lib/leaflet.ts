@@ -0,0 +1,71 @@
+// Leaflet and its plugins are loaded from the CDN rather than bundled; every
+// map in the app waits on the same scripts
+
+/// <reference types="leaflet.markercluster" />
+import type * as LeafletNamespace from "leaflet";
+
+const LEAFLET_VERSION = "1.9.4";
+const MARKER_CLUSTER_VERSION = "1.5.3";
+
+// The global `L` the CDN build defines, typed by @types/leaflet (and
+// @types/leaflet.markercluster for `L.markerClusterGroup`)
+export type Leaflet = typeof LeafletNamespace;
+
+// The global `L`, or undefined until the script has run
+export const globalLeaflet = () => (window as unknown as { L?: Leaflet }).L;
+
+// Adds the stylesheets and script, resolving once the script has run
+const loadAssets = (stylesheets: string[], script: string) =>
+  new Promise<void>((resolve, reject) => {
+    stylesheets.forEach((href) => {
+      const link = document.createElement("link");
+      link.rel = "stylesheet";
+      link.href = href;
+      document.head.appendChild(link);
+    });
+
+    const element = document.createElement("script");
+    element.src = script;
+    element.async = true;
+    element.onload = () => resolve();
+    element.onerror = () => reject(new Error("Failed to load the map library"));
+    document.head.appendChild(element);
+  });
+
+let leafletPromise: Promise<Leaflet> | null = null;
+let markerClusterPromise: Promise<Leaflet> | null = null;
+
+// Resolves with the global `L` once the script has run
+export const loadLeaflet = (): Promise<Leaflet> => {
+  if (leafletPromise) return leafletPromise;
+  if (globalLeaflet()) return (leafletPromise = Promise.resolve(globalLeaflet()));
+
+  const base = `https://unpkg.com/leaflet@${LEAFLET_VERSION}/dist`;
+  leafletPromise = loadAssets([`${base}/leaflet.css`], `${base}/leaflet.js`).then(globalLeaflet, (error) => {
+    leafletPromise = null;
+    throw error;
+  });
+
+  return leafletPromise;
+};
+
+// Leaflet with Leaflet.markercluster, which adds `L.markerClusterGroup`
+export const loadMarkerCluster = (): Promise<Leaflet> => {
+  if (markerClusterPromise) return markerClusterPromise;
+
+  const base = `https://unpkg.com/leaflet.markercluster@${MARKER_CLUSTER_VERSION}/dist`;
+  markerClusterPromise = loadLeaflet()
+    .then((L) =>
+      L.markerClusterGroup
+        ? L
+        : loadAssets([`${base}/MarkerCluster.css`, `${base}/MarkerCluster.Default.css`], `${base}/leaflet.markercluster.js`).then(
+            globalLeaflet
+          )
+    )
+    .catch((error) => {
+      markerClusterPromise = null;
+      throw error;
+    });
+
+  return markerClusterPromise;
+};
@@ -0,0 +1,98 @@
+// Basemaps and toggleable overlays of the analysis map, and the user's choice
+// of them, which is kept in localStorage so it survives reloads.
+//
+// The satellite basemap defaults to Esri World Imagery; point
+// VITE_SATELLITE_TILE_URL (and VITE_SATELLITE_ATTRIBUTION) at another
+// {z}/{x}/{y} tile source to use that instead.
+
+import { OBSTACLE_KIND_STYLES, OBSTACLE_KINDS } from "@/lib/obstacle-categories";
+import type { ObstacleKind } from "@/types/analysis";
+
+export type BasemapId = "osm" | "light" | "dark" | "satellite";
+
+export interface Basemap {
+  label: string;
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+const OSM_ATTRIBUTION = "© OpenStreetMap contributors";
+const CARTO_ATTRIBUTION = `${OSM_ATTRIBUTION} © CARTO`;
+
+export const BASEMAPS: Record<BasemapId, Basemap> = {
+  osm: {
+    label: "OpenStreetMap",
+    url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+    attribution: OSM_ATTRIBUTION,
+    maxZoom: 19,
+  },
+  light: {
+    label: "Light",
+    url: "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png",
+    attribution: CARTO_ATTRIBUTION,
+    maxZoom: 20,
+  },
+  dark: {
+    label: "Dark",
+    url: "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png",
+    attribution: CARTO_ATTRIBUTION,
+    maxZoom: 20,
+  },
+  satellite: {
+    label: "Satellite",
+    url:
+      import.meta.env.VITE_SATELLITE_TILE_URL ||
+      "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+    attribution:
+      import.meta.env.VITE_SATELLITE_ATTRIBUTION ||
+      "Tiles © Esri — Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community",
+    maxZoom: 19,
+  },
+};
+
+const BASEMAP_IDS = Object.keys(BASEMAPS) as BasemapId[];
+
+// Shading draws sight lines from the site centre to the worst offenders;
+// labels are the permanent captions on the site and those obstacles
+export type OverlayId = "boundary" | ObstacleKind | "shading" | "labels";
+
+export const OVERLAYS: Array<{ id: OverlayId; label: string }> = [
+  { id: "boundary", label: "Site boundary" },
+  ...OBSTACLE_KINDS.map((kind) => ({ id: kind, label: `${OBSTACLE_KIND_STYLES[kind].glyph} ${OBSTACLE_KIND_STYLES[kind].label}` })),
+  { id: "shading", label: "Shading sight lines" },
+  { id: "labels", label: "Labels" },
+];
+
+export interface MapLayerPreferences {
+  basemap: BasemapId;
+  // Overlays are shown unless listed here, so ones added later start visible
+  hidden: OverlayId[];
+}
+
+const STORAGE_KEY = "geo-sun-scan:map-layers";
+
+const DEFAULT_PREFERENCES: MapLayerPreferences = { basemap: "osm", hidden: [] };
+
+// Falls back to the defaults when nothing (or something unreadable) is stored
+export const readLayerPreferences = (): MapLayerPreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<MapLayerPreferences> | null;
+    const overlayIds = OVERLAYS.map((overlay) => overlay.id);
+    return {
+      basemap: BASEMAP_IDS.includes(stored?.basemap) ? stored.basemap : DEFAULT_PREFERENCES.basemap,
+      hidden: Array.isArray(stored?.hidden) ? stored.hidden.filter((id) => overlayIds.includes(id)) : DEFAULT_PREFERENCES.hidden,
+    };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+// Storage can be full or disabled; the choice then only lasts the session
+export const saveLayerPreferences = (preferences: MapLayerPreferences) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Nothing to do
+  }
+};
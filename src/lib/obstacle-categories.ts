@@ -0,0 +1,43 @@
+// How each obstacle kind is drawn: the map colour and marker glyph, and the
+// icon used in cards and legends. Labels come from the shared taxonomy.
+
+import type { LucideIcon } from "lucide-react";
+import {
+  Antenna,
+  BrickWall,
+  Building2,
+  Factory,
+  Fence,
+  RadioTower,
+  TreeDeciduous,
+  TreePine,
+  Trees,
+  Wind,
+  Zap,
+} from "lucide-react";
+import { OBSTACLE_CATEGORIES, OBSTACLE_TAXONOMY } from "@shared/obstacles.ts";
+import type { ObstacleKind } from "@/types/analysis";
+
+export const OBSTACLE_KINDS: ObstacleKind[] = ["building", ...OBSTACLE_CATEGORIES];
+
+export const OBSTACLE_KIND_STYLES: Record<ObstacleKind, { label: string; color: string; glyph: string; icon: LucideIcon }> = {
+  building: { label: "Buildings", color: "#ef4444", glyph: "🏠", icon: Building2 },
+  tree: { label: OBSTACLE_TAXONOMY.tree.label, color: "#22c55e", glyph: "🌳", icon: Trees },
+  tree_row: { label: OBSTACLE_TAXONOMY.tree_row.label, color: "#16a34a", glyph: "🌳", icon: TreeDeciduous },
+  hedge: { label: OBSTACLE_TAXONOMY.hedge.label, color: "#65a30d", glyph: "🌿", icon: Fence },
+  wood: { label: OBSTACLE_TAXONOMY.wood.label, color: "#15803d", glyph: "🌲", icon: TreePine },
+  pole: { label: OBSTACLE_TAXONOMY.pole.label, color: "#f59e0b", glyph: "⚡", icon: Zap },
+  tower: { label: OBSTACLE_TAXONOMY.tower.label, color: "#8b5cf6", glyph: "🗼", icon: RadioTower },
+  mast: { label: OBSTACLE_TAXONOMY.mast.label, color: "#6366f1", glyph: "📡", icon: Antenna },
+  chimney: { label: OBSTACLE_TAXONOMY.chimney.label, color: "#78716c", glyph: "🏭", icon: Factory },
+  wind_turbine: { label: OBSTACLE_TAXONOMY.wind_turbine.label, color: "#0ea5e9", glyph: "💨", icon: Wind },
+  wall: { label: OBSTACLE_TAXONOMY.wall.label, color: "#a16207", glyph: "🧱", icon: BrickWall },
+};
+
+// The kinds present, with their counts, for a single table cell
+export const obstacleCountSummary = (counts: Record<ObstacleKind, number>) => {
+  const present = OBSTACLE_KINDS.filter((kind) => counts[kind] > 0);
+  return present.length > 0
+    ? present.map((kind) => `${OBSTACLE_KIND_STYLES[kind].label} ${counts[kind]}`).join(" · ")
+    : "None";
+};
@@ -0,0 +1,69 @@
+// Popup shown when an obstacle on the map is clicked: what it is, where it is
+// relative to the site centre, how tall we think it is, how much sun it
+// takes, and its OSM tags with a link to the object.
+
+import { OBSTACLE_KIND_STYLES } from "@/lib/obstacle-categories";
+import { osmRef } from "@shared/buildings.ts";
+import { bearingDegrees, distanceMetres } from "@shared/geo.ts";
+import type { AnalysisData, ObstacleKind, OsmElementType } from "@/types/analysis";
+
+const COMPASS_POINTS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+
+export const compassPoint = (bearing: number) => COMPASS_POINTS[Math.round(bearing / 45) % 8];
+
+const HEIGHT_SOURCES = { height: "tagged", levels: "from levels", default: "assumed" };
+
+export interface ObstacleDetails {
+  kind: ObstacleKind;
+  lat: number;
+  lon: number;
+  height_m: number;
+  height_source: keyof typeof HEIGHT_SOURCES;
+  osm_type: OsmElementType;
+  osm_id: number;
+  tags: Record<string, string>;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[<>&"']/g, (char) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&#39;" })[char]);
+
+// Share of annual direct sun the obstacle blocks
+const shadingImpact = (ref: string, shading: AnalysisData["shading"]) => {
+  const loss = shading.loss_by_ref[ref];
+  return loss ? `${loss.toFixed(2)}% of annual direct sun` : "None at the site centre";
+};
+
+export const obstaclePopupHtml = (obstacle: ObstacleDetails, data: AnalysisData) => {
+  const ref = osmRef(obstacle.osm_type, obstacle.osm_id);
+  const distance = distanceMetres(data.location, obstacle);
+  const bearing = bearingDegrees(data.location, obstacle);
+  const name = obstacle.tags.name;
+
+  const rows: Array<[string, string]> = [
+    ["Distance", `${distance.toFixed(0)} m ${compassPoint(bearing)} (${bearing.toFixed(0)}°) of the site centre`],
+    ["Height", `${obstacle.height_m.toFixed(1)} m (${HEIGHT_SOURCES[obstacle.height_source]})`],
+    ["Shading", shadingImpact(ref, data.shading)],
+  ];
+  const tags = Object.entries(obstacle.tags);
+
+  return `
+    <div class="text-xs space-y-1.5 min-w-[200px]">
+      <div class="font-semibold text-sm">${escapeHtml(OBSTACLE_KIND_STYLES[obstacle.kind].label)}${
+        name ? ` · ${escapeHtml(name)}` : ""
+      }</div>
+      <table class="w-full">${rows
+        .map(([label, value]) => `<tr><td class="pr-2 text-gray-500 align-top">${label}</td><td>${value}</td></tr>`)
+        .join("")}</table>
+      ${
+        tags.length > 0
+          ? `<table class="w-full border-t border-gray-200 pt-1">${tags
+              .map(
+                ([key, value]) =>
+                  `<tr><td class="pr-2 font-mono text-gray-500 align-top">${escapeHtml(key)}</td><td class="font-mono">${escapeHtml(value)}</td></tr>`
+              )
+              .join("")}</table>`
+          : ""
+      }
+      <a href="https://www.openstreetmap.org/${ref}" target="_blank" rel="noopener noreferrer">View ${ref} on OpenStreetMap</a>
+    </div>`;
+};
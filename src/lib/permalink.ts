@@ -0,0 +1,78 @@
+import type { SystemParameters } from "@/types/analysis";
+
+// Short query-string names for the PV system inputs
+export const SYSTEM_QUERY_KEYS: Record<keyof SystemParameters, string> = {
+  kwp: "kwp",
+  tilt: "tilt",
+  azimuth: "azimuth",
+  module_efficiency_percent: "eff",
+  system_losses_percent: "loss",
+};
+
+const VIEW_QUERY_KEY = "view";
+
+export interface MapView {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+// "lat,lng,zoom", as written by formatMapView
+export const parseMapView = (value: string | null): MapView | null => {
+  const [lat, lng, zoom] = (value ?? "").split(",").map(Number);
+  if (![lat, lng, zoom].every(Number.isFinite)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180 || zoom < 0 || zoom > 19) return null;
+  return { lat, lng, zoom };
+};
+
+const formatMapView = ({ lat, lng, zoom }: MapView) => `${lat.toFixed(5)},${lng.toFixed(5)},${zoom}`;
+
+export const readMapView = (params: URLSearchParams) => parseMapView(params.get(VIEW_QUERY_KEY));
+
+// System inputs from the query string, falling back to `defaults` per field
+export const readSystemQuery = (
+  params: URLSearchParams,
+  defaults: Record<keyof SystemParameters, string>
+): Record<keyof SystemParameters, string> => {
+  const system = { ...defaults };
+  (Object.keys(SYSTEM_QUERY_KEYS) as Array<keyof SystemParameters>).forEach((key) => {
+    const value = params.get(SYSTEM_QUERY_KEYS[key]);
+    if (value !== null && value.trim() !== "") system[key] = value;
+  });
+  return system;
+};
+
+// Every input is written out, even defaults, so a link keeps meaning the same
+// thing if the defaults change later
+export const buildQuery = (system: Record<keyof SystemParameters, string>, view: MapView | null) => {
+  const params = new URLSearchParams();
+  (Object.keys(SYSTEM_QUERY_KEYS) as Array<keyof SystemParameters>).forEach((key) => {
+    if (system[key].trim() !== "") params.set(SYSTEM_QUERY_KEYS[key], system[key].trim());
+  });
+  if (view) params.set(VIEW_QUERY_KEY, formatMapView(view));
+  return params;
+};
+
+// Saved runs link to their stored result; unsaved ones re-run by postcode.
+// Unsaved point and polygon runs have no link.
+export const analysisPath = ({ id, postcode }: { id: string | null; postcode: string | null }) => {
+  if (id) return `/analysis/${id}`;
+  return postcode ? `/site/${encodeURIComponent(postcode.replace(/\s+/g, ""))}` : null;
+};
+
+const COMPARE_QUERY_KEY = "ids";
+
+// The compare view holds at most this many sites
+export const MAX_COMPARED_SITES = 4;
+
+// Saved analyses on the /compare page, in the order they were added
+export const readCompareIds = (params: URLSearchParams) =>
+  (params.get(COMPARE_QUERY_KEY) ?? "").split(",").filter(Boolean);
+
+export const compareQuery = (ids: string[]) =>
+  new URLSearchParams(ids.length > 0 ? { [COMPARE_QUERY_KEY]: ids.join(",") } : {});
+
+export const comparePath = (ids: string[]) => {
+  const query = compareQuery(ids).toString();
+  return query ? `/compare?${query}` : "/compare";
+};
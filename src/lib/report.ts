@@ -0,0 +1,313 @@
+// One-page-plus PDF report of an analysis: a static map of the site, the
+// obstacle summary, shading and yield figures, then monthly climate charts
+// and a table. jsPDF is only loaded when a report is generated.
+
+import { format } from "date-fns";
+import type { jsPDF } from "jspdf";
+import { OBSTACLE_KIND_STYLES, OBSTACLE_KINDS } from "@/lib/obstacle-categories";
+import { compassPoint } from "@/lib/obstacle-popup";
+import { renderSiteMap, SITE_MAP_COLORS } from "@/lib/static-map";
+import type { AnalysisData } from "@/types/analysis";
+
+// A4 portrait, in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// Map snapshot size on the page and the pixels rendered for it
+const MAP_HEIGHT = 105;
+const MAP_PIXELS_PER_MM = 6;
+
+const ATTRIBUTIONS = [
+  "Map data and obstacles © OpenStreetMap contributors (ODbL), via the Overpass API.",
+  "Weather and irradiance: Open-Meteo.com historical weather archive (CC BY 4.0).",
+];
+
+const TIMESTAMP_FORMAT = "d MMM yyyy, HH:mm";
+
+const kwh = (value: number) => `${Math.round(value).toLocaleString("en-GB")} kWh`;
+
+const sectionTitle = (doc: jsPDF, title: string, y: number) => {
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.setTextColor("#111827");
+  doc.text(title, MARGIN, y);
+  doc.setDrawColor("#e5e7eb");
+  doc.line(MARGIN, y + 1.5, PAGE_WIDTH - MARGIN, y + 1.5);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  return y + 7;
+};
+
+// Label/value pairs, one per line, from `y`; returns the y below them
+const keyValues = (doc: jsPDF, rows: Array<[string, string]>, x: number, y: number, width: number) => {
+  rows.forEach(([label, value], index) => {
+    doc.setTextColor("#6b7280");
+    doc.text(label, x, y + index * 5);
+    doc.setTextColor("#111827");
+    doc.text(value, x + width, y + index * 5, { align: "right" });
+  });
+  return y + rows.length * 5;
+};
+
+// Monthly bars with a zero baseline, scaled to the largest magnitude
+const barChart = (
+  doc: jsPDF,
+  { x, y, width, height, title, values, color }: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    title: string;
+    values: number[];
+    color: string;
+  }
+) => {
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(9);
+  doc.setTextColor("#111827");
+  doc.text(title, x, y);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(7);
+
+  const top = y + 3;
+  const plotHeight = height - 10;
+  const max = Math.max(...values, 0);
+  const min = Math.min(...values, 0);
+  const range = max - min || 1;
+  const baseline = top + (max / range) * plotHeight;
+  const slot = width / values.length;
+
+  doc.setFillColor(color);
+  values.forEach((value, index) => {
+    const barHeight = (Math.abs(value) / range) * plotHeight;
+    doc.rect(x + index * slot + slot * 0.15, value >= 0 ? baseline - barHeight : baseline, slot * 0.7, barHeight, "F");
+    doc.setTextColor("#6b7280");
+    doc.text("JFMAMJJASOND"[index], x + index * slot + slot / 2, top + plotHeight + 4, { align: "center" });
+  });
+
+  doc.setDrawColor("#9ca3af");
+  doc.line(x, baseline, x + width, baseline);
+  doc.setTextColor("#6b7280");
+  doc.text(max.toFixed(max >= 100 ? 0 : 1), x + width, top - 0.5, { align: "right" });
+  if (min < 0) doc.text(min.toFixed(1), x + width, top + plotHeight + 4, { align: "right" });
+};
+
+const table = (doc: jsPDF, header: string[], rows: string[][], y: number) => {
+  const columnWidth = CONTENT_WIDTH / header.length;
+  const cellX = (index: number) => (index === 0 ? MARGIN : MARGIN + (index + 1) * columnWidth);
+  const align = (index: number) => (index === 0 ? "left" : "right");
+
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor("#111827");
+  header.forEach((cell, index) => doc.text(cell, cellX(index), y, { align: align(index) }));
+  doc.setFont("helvetica", "normal");
+  doc.setDrawColor("#e5e7eb");
+  rows.forEach((row, rowIndex) => {
+    const rowY = y + 5 + rowIndex * 4.5;
+    doc.line(MARGIN, rowY - 3.3, PAGE_WIDTH - MARGIN, rowY - 3.3);
+    row.forEach((cell, index) => doc.text(cell, cellX(index), rowY, { align: align(index) }));
+  });
+  return y + 5 + rows.length * 4.5;
+};
+
+// Attributions and page numbers at the foot of every page
+const footers = (doc: jsPDF, generatedAt: Date) => {
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFontSize(7);
+    doc.setTextColor("#6b7280");
+    ATTRIBUTIONS.forEach((line, index) => doc.text(line, MARGIN, PAGE_HEIGHT - 14 + index * 3.5));
+    doc.text(`Generated ${format(generatedAt, TIMESTAMP_FORMAT)}`, MARGIN, PAGE_HEIGHT - 7);
+    doc.text(`Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 7, { align: "right" });
+  }
+};
+
+const siteDescription = (data: AnalysisData) =>
+  data.site.kind === "postcode"
+    ? `Postcode ${data.site.label}`
+    : data.site.kind === "point"
+      ? `Point ${data.site.label} with a ${data.site.radius_m} m radius`
+      : data.site.label;
+
+export const buildReport = async (data: AnalysisData): Promise<jsPDF> => {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const generatedAt = new Date();
+
+  // Title
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.setTextColor("#111827");
+  doc.text("Solar Site Report", MARGIN, MARGIN + 5);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor("#374151");
+  doc.text(siteDescription(data), MARGIN, MARGIN + 12);
+  doc.setTextColor("#6b7280");
+  doc.text(
+    `Centre ${data.location.lat.toFixed(5)}, ${data.location.lon.toFixed(5)} · Analysed ${format(
+      new Date(data.meta.retrieved_at),
+      TIMESTAMP_FORMAT
+    )}`,
+    MARGIN,
+    MARGIN + 17
+  );
+
+  // Map snapshot and its legend
+  let y = MARGIN + 22;
+  const map = await renderSiteMap(data, CONTENT_WIDTH * MAP_PIXELS_PER_MM, MAP_HEIGHT * MAP_PIXELS_PER_MM);
+  doc.addImage(map.toDataURL("image/png"), "PNG", MARGIN, y, CONTENT_WIDTH, MAP_HEIGHT);
+  doc.setDrawColor("#d1d5db");
+  doc.rect(MARGIN, y, CONTENT_WIDTH, MAP_HEIGHT);
+  y += MAP_HEIGHT + 5;
+
+  // Taxonomy categories beyond trees and poles, listed only when found
+  const counts = data.category_counts;
+  const otherKinds = OBSTACLE_KINDS.filter((kind) => !["building", "tree", "pole"].includes(kind) && counts[kind] > 0);
+
+  doc.setFontSize(8);
+  let legendX = MARGIN;
+  [
+    { label: "Site boundary", color: SITE_MAP_COLORS.boundary },
+    { label: "Centre", color: SITE_MAP_COLORS.centre },
+    { label: "Buildings", color: SITE_MAP_COLORS.building },
+    { label: "Trees", color: SITE_MAP_COLORS.tree },
+    { label: "Utility poles", color: SITE_MAP_COLORS.pole },
+    ...otherKinds.map((kind) => OBSTACLE_KIND_STYLES[kind]),
+  ].forEach(({ label, color }) => {
+    // Wrap onto a new line rather than run off the page
+    if (legendX + doc.getTextWidth(label) + 4.5 > MARGIN + CONTENT_WIDTH) {
+      legendX = MARGIN;
+      y += 5;
+    }
+    doc.setFillColor(color);
+    doc.rect(legendX, y - 2.5, 3, 3, "F");
+    doc.setTextColor("#374151");
+    doc.text(label, legendX + 4.5, y);
+    legendX += doc.getTextWidth(label) + 11;
+  });
+  y += 9;
+
+  // Obstacles on the left, shading and yield on the right
+  const columnWidth = (CONTENT_WIDTH - 10) / 2;
+  const rightX = MARGIN + columnWidth + 10;
+  const { buildings, trees, poles } = data.obstacles;
+  const heights = buildings.features.map((feature) => feature.properties.height_m);
+  const tagged = buildings.features.filter((feature) => feature.properties.height_source !== "default").length;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.setTextColor("#111827");
+  doc.text("Obstacles", MARGIN, y);
+  doc.text("Shading and yield", rightX, y);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+
+  const annual = data.variability.annual_kwh;
+  const leftEnd = keyValues(
+    doc,
+    [
+      ["Buildings", String(buildings.features.length)],
+      ["With tagged height or levels", String(tagged)],
+      ["Tallest building", heights.length > 0 ? `${Math.max(...heights).toFixed(1)} m` : "-"],
+      ["Trees", String(trees.length)],
+      ["Utility poles", String(poles.length)],
+      ...otherKinds.map((kind): [string, string] => [OBSTACLE_KIND_STYLES[kind].label, String(counts[kind])]),
+    ],
+    MARGIN,
+    y + 6,
+    columnWidth
+  );
+  const rightEnd = keyValues(
+    doc,
+    [
+      ["Annual beam shading loss", `${data.shading.annual_loss_percent.toFixed(1)}%`],
+      [
+        "System",
+        `${data.energy.parameters.kwp} kWp, ${data.energy.parameters.tilt}° tilt, ${data.energy.parameters.azimuth}° azimuth`,
+      ],
+      ["Estimated annual yield", kwh(data.energy.annual_kwh)],
+      ["Specific yield", `${Math.round(data.energy.specific_yield_kwh_kwp)} kWh/kWp`],
+      ...(annual
+        ? ([
+            ["P50 / P90", `${kwh(annual.mean)} / ${kwh(annual.p90)}`],
+            ["Worst / best year", `${kwh(annual.min)} / ${kwh(annual.max)}`],
+          ] as Array<[string, string]>)
+        : []),
+    ],
+    rightX,
+    y + 6,
+    columnWidth
+  );
+  y = Math.max(leftEnd, rightEnd) + 6;
+
+  // Worst shading obstacles, as far as the first page allows
+  const ranked = data.shading.obstacles.slice(0, Math.max(0, Math.floor((PAGE_HEIGHT - 22 - y - 12) / 4.5)));
+  if (ranked.length > 0) {
+    y = sectionTitle(doc, "Main shading obstacles", y);
+    table(
+      doc,
+      ["Obstacle", "Height", "Distance", "Direction", "Elevation", "Loss"],
+      ranked.map((obstacle) => [
+        obstacle.type,
+        `${obstacle.height_m.toFixed(1)} m`,
+        `${obstacle.distance_m.toFixed(0)} m`,
+        `${compassPoint(obstacle.bearing)} (${obstacle.bearing.toFixed(0)}°)`,
+        `${obstacle.obstruction_elevation.toFixed(1)}°`,
+        `${obstacle.loss_percent.toFixed(2)}%`,
+      ]),
+      y
+    );
+  }
+
+  // Climate charts and the monthly table on the second page
+  doc.addPage();
+  y = sectionTitle(doc, "Monthly climate and yield (five-year average)", MARGIN + 5);
+  const chartWidth = (CONTENT_WIDTH - 10) / 2;
+  const chartHeight = 45;
+  [
+    { title: "Sunshine (hours per month)", values: data.weather.map((month) => month.sunshine_monthly_total), color: "#f59e0b" },
+    { title: "Temperature (°C, daily mean)", values: data.weather.map((month) => month.temperature_2m_mean), color: "#ef4444" },
+    { title: "Precipitation (mm per month)", values: data.weather.map((month) => month.precipitation_monthly_total), color: "#3b82f6" },
+    { title: "Estimated yield (kWh per month)", values: data.energy.monthly.map((month) => month.energy_kwh), color: "#22c55e" },
+  ].forEach((chart, index) =>
+    barChart(doc, {
+      ...chart,
+      x: MARGIN + (index % 2) * (chartWidth + 10),
+      y: y + Math.floor(index / 2) * (chartHeight + 6),
+      width: chartWidth,
+      height: chartHeight,
+    })
+  );
+  y += 2 * (chartHeight + 6) + 4;
+
+  y = sectionTitle(doc, "Monthly figures", y);
+  table(
+    doc,
+    ["Month", "Temp (°C)", "Rain (mm)", "Sun (h)", "GHI (kWh/m²)", "POA (kWh/m²)", "Yield (kWh)"],
+    data.weather.map((month, index) => [
+      month.month,
+      month.temperature_2m_mean.toFixed(1),
+      month.precipitation_monthly_total.toFixed(0),
+      month.sunshine_monthly_total.toFixed(0),
+      month.shortwave_radiation_sum.toFixed(1),
+      month.plane_of_array_sum.toFixed(1),
+      data.energy.monthly[index].energy_kwh.toFixed(0),
+    ]),
+    y
+  );
+
+  footers(doc, generatedAt);
+  return doc;
+};
+
+// e.g. "solar-report-SW1A-1AA-2026-10-19.pdf"
+export const downloadReport = async (data: AnalysisData) => {
+  const doc = await buildReport(data);
+  const label = data.site.label.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  doc.save(`solar-report-${label}-${format(new Date(), "yyyy-MM-dd")}.pdf`);
+};
@@ -0,0 +1,203 @@
+// Renders a site onto a canvas for reports: OpenStreetMap tiles at the
+// highest zoom that fits the boundary and obstacles, with the same colours as
+// the interactive map drawn on top. Tiles that fail to load are left blank so
+// the overlay still renders offline.
+
+import { boundaryGeometry } from "@/lib/export";
+import { OBSTACLE_KIND_STYLES } from "@/lib/obstacle-categories";
+import type { AnalysisData } from "@/types/analysis";
+
+const TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_SIZE = 256;
+const MAX_ZOOM = 18;
+
+// Share of the canvas the content may cover, leaving a margin around it
+const FIT_FRACTION = 0.85;
+
+export const SITE_MAP_COLORS = {
+  boundary: "#3b82f6",
+  building: "#f97316",
+  buildingOutline: "#7c2d12",
+  tree: "#22c55e",
+  pole: "#f59e0b",
+  centre: "#dc2626",
+};
+
+// Web Mercator position in pixels at `zoom`
+const project = (lon: number, lat: number, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((lon + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+const loadTile = (url: string) =>
+  new Promise<HTMLImageElement | null>((resolve) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+
+// Every [lon, lat] position nested anywhere in a GeoJSON coordinates array
+const positionsOf = (coordinates: unknown): number[][] =>
+  Array.isArray(coordinates) && typeof coordinates[0] === "number"
+    ? [coordinates as number[]]
+    : Array.isArray(coordinates)
+      ? coordinates.flatMap(positionsOf)
+      : [];
+
+// Outer and inner rings of a Polygon or MultiPolygon
+const ringsOf = (geometry: { type: string; coordinates: unknown }): number[][][] =>
+  geometry.type === "Polygon"
+    ? (geometry.coordinates as number[][][])
+    : geometry.type === "MultiPolygon"
+      ? (geometry.coordinates as number[][][][]).flat()
+      : [];
+
+export const renderSiteMap = async (data: AnalysisData, width: number, height: number): Promise<HTMLCanvasElement> => {
+  const boundary = boundaryGeometry(data.boundary);
+  const positions = [
+    [data.location.lon, data.location.lat],
+    ...(boundary ? positionsOf(boundary.coordinates) : []),
+    ...data.obstacles.buildings.features.flatMap((feature) => positionsOf(feature.geometry.coordinates)),
+    ...[...data.obstacles.trees, ...data.obstacles.poles].map(({ lat, lon }) => [lon, lat]),
+    ...data.obstacles.other.flatMap((feature) => positionsOf(feature.geometry.coordinates)),
+  ];
+
+  // Highest zoom at which everything fits
+  const spanAt = (zoom: number) => {
+    const points = positions.map(([lon, lat]) => project(lon, lat, zoom));
+    return {
+      width: Math.max(...points.map((p) => p.x)) - Math.min(...points.map((p) => p.x)),
+      height: Math.max(...points.map((p) => p.y)) - Math.min(...points.map((p) => p.y)),
+    };
+  };
+  let zoom = MAX_ZOOM;
+  while (zoom > 1) {
+    const span = spanAt(zoom);
+    if (span.width <= width * FIT_FRACTION && span.height <= height * FIT_FRACTION) break;
+    zoom--;
+  }
+
+  const projected = positions.map(([lon, lat]) => project(lon, lat, zoom));
+  const centreX = (Math.max(...projected.map((p) => p.x)) + Math.min(...projected.map((p) => p.x))) / 2;
+  const centreY = (Math.max(...projected.map((p) => p.y)) + Math.min(...projected.map((p) => p.y))) / 2;
+  const left = centreX - width / 2;
+  const top = centreY - height / 2;
+  const toCanvas = (lon: number, lat: number) => {
+    const { x, y } = project(lon, lat, zoom);
+    return { x: x - left, y: y - top };
+  };
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d")!;
+  context.fillStyle = "#e5e7eb";
+  context.fillRect(0, 0, width, height);
+
+  // Base tiles
+  const tileCount = 2 ** zoom;
+  const tiles: Array<{ x: number; y: number; url: string }> = [];
+  for (let x = Math.floor(left / TILE_SIZE); x <= Math.floor((left + width) / TILE_SIZE); x++) {
+    for (let y = Math.floor(top / TILE_SIZE); y <= Math.floor((top + height) / TILE_SIZE); y++) {
+      if (y < 0 || y >= tileCount) continue;
+      const wrappedX = ((x % tileCount) + tileCount) % tileCount;
+      tiles.push({ x, y, url: TILE_URL.replace("{z}", String(zoom)).replace("{x}", String(wrappedX)).replace("{y}", String(y)) });
+    }
+  }
+  const images = await Promise.all(tiles.map((tile) => loadTile(tile.url)));
+  tiles.forEach(({ x, y }, index) => {
+    const image = images[index];
+    if (image) context.drawImage(image, x * TILE_SIZE - left, y * TILE_SIZE - top);
+  });
+
+  const tracePolygon = (rings: number[][][]) => {
+    context.beginPath();
+    rings.forEach((ring) => {
+      ring.forEach(([lon, lat], index) => {
+        const { x, y } = toCanvas(lon, lat);
+        if (index === 0) context.moveTo(x, y);
+        else context.lineTo(x, y);
+      });
+      context.closePath();
+    });
+  };
+
+  const dot = (lon: number, lat: number, radius: number, color: string) => {
+    const { x, y } = toCanvas(lon, lat);
+    context.beginPath();
+    context.arc(x, y, radius, 0, 2 * Math.PI);
+    context.fillStyle = color;
+    context.fill();
+    context.lineWidth = 1.5;
+    context.strokeStyle = "#ffffff";
+    context.stroke();
+  };
+
+  if (boundary) {
+    tracePolygon(ringsOf(boundary));
+    context.fillStyle = `${SITE_MAP_COLORS.boundary}26`;
+    context.fill("evenodd");
+    context.lineWidth = 3;
+    context.strokeStyle = SITE_MAP_COLORS.boundary;
+    context.stroke();
+  }
+
+  data.obstacles.buildings.features.forEach((feature) => {
+    if (feature.geometry.type === "Polygon") {
+      tracePolygon(feature.geometry.coordinates);
+      context.fillStyle = `${SITE_MAP_COLORS.building}bf`;
+      context.fill("evenodd");
+      context.lineWidth = 1;
+      context.strokeStyle = SITE_MAP_COLORS.buildingOutline;
+      context.stroke();
+    } else {
+      const [lon, lat] = feature.geometry.coordinates;
+      dot(lon, lat, 5, SITE_MAP_COLORS.building);
+    }
+  });
+  // Other categories in their interactive map colours: areas filled, lines
+  // stroked, points as dots
+  data.obstacles.other.forEach(({ category, geometry }) => {
+    const { color } = OBSTACLE_KIND_STYLES[category];
+    if (geometry.type === "Point") {
+      dot(geometry.coordinates[0], geometry.coordinates[1], 4, color);
+    } else if (geometry.type === "Polygon") {
+      tracePolygon(geometry.coordinates);
+      context.fillStyle = `${color}40`;
+      context.fill("evenodd");
+      context.lineWidth = 1.5;
+      context.strokeStyle = color;
+      context.stroke();
+    } else {
+      context.beginPath();
+      geometry.coordinates.forEach(([lon, lat], index) => {
+        const { x, y } = toCanvas(lon, lat);
+        if (index === 0) context.moveTo(x, y);
+        else context.lineTo(x, y);
+      });
+      context.lineWidth = 2.5;
+      context.strokeStyle = color;
+      context.stroke();
+    }
+  });
+  data.obstacles.trees.forEach(({ lat, lon }) => dot(lon, lat, 5, SITE_MAP_COLORS.tree));
+  data.obstacles.poles.forEach(({ lat, lon }) => dot(lon, lat, 4, SITE_MAP_COLORS.pole));
+  dot(data.location.lon, data.location.lat, 6, SITE_MAP_COLORS.centre);
+
+  // Tile attribution, as on the interactive map
+  const attribution = "© OpenStreetMap contributors";
+  context.font = "11px sans-serif";
+  const textWidth = context.measureText(attribution).width;
+  context.fillStyle = "rgba(255, 255, 255, 0.8)";
+  context.fillRect(width - textWidth - 8, height - 16, textWidth + 8, 16);
+  context.fillStyle = "#333333";
+  context.fillText(attribution, width - textWidth - 4, height - 4);
+
+  return canvas;
+};
@@ -0,0 +1,63 @@
+// Sun tracks across the sky for the site, and the obstacles around it as the
+// shading model sees them, for the sun-path diagram. Times are UTC, as in the
+// analysis itself.
+
+import { blockingSilhouette, obstacleSilhouettes, shadingInputs, type Silhouette } from "@shared/shading.ts";
+import { sunPosition, type SunPosition } from "@shared/solar.ts";
+import type { AnalysisData } from "@/types/analysis";
+
+// Sun positions barely drift between years
+const REFERENCE_YEAR = 2023;
+
+export const TRACK_STEP_MINUTES = 10;
+
+export interface SunPathDate {
+  id: string;
+  label: string;
+  month: number; // 0-11
+  day: number;
+}
+
+// The September equinox track all but coincides with the March one
+export const KEY_DATES: SunPathDate[] = [
+  { id: "june-solstice", label: "21 Jun (summer solstice)", month: 5, day: 21 },
+  { id: "equinox", label: "20 Mar / 22 Sep (equinoxes)", month: 2, day: 20 },
+  { id: "december-solstice", label: "21 Dec (winter solstice)", month: 11, day: 21 },
+];
+
+export const MONTHLY_DATES: SunPathDate[] = Array.from({ length: 12 }, (_, month) => {
+  const name = new Date(Date.UTC(REFERENCE_YEAR, month, 21)).toLocaleString("en-GB", { month: "short", timeZone: "UTC" });
+  return { id: `month-${month}`, label: `21 ${name}`, month, day: 21 };
+});
+
+export interface TrackPoint extends SunPosition {
+  minutes: number; // UTC minutes past midnight
+  blocker: Silhouette | null;
+}
+
+// Daylight positions every TRACK_STEP_MINUTES, each with the obstacle (if any) in
+// front of the sun
+export const sunTrack = (data: AnalysisData, date: SunPathDate, silhouettes: Silhouette[]): TrackPoint[] => {
+  const points: TrackPoint[] = [];
+  for (let minutes = 0; minutes < 24 * 60; minutes += TRACK_STEP_MINUTES) {
+    const position = sunPosition(
+      new Date(Date.UTC(REFERENCE_YEAR, date.month, date.day, 0, minutes)),
+      data.location.lat,
+      data.location.lon
+    );
+    if (position.elevation <= 0) continue;
+    points.push({ ...position, minutes, blocker: blockingSilhouette(position, silhouettes) });
+  }
+  return points;
+};
+
+export const siteSilhouettes = (data: AnalysisData): Silhouette[] =>
+  obstacleSilhouettes(
+    data.location,
+    shadingInputs({
+      buildings: data.obstacles.buildings.features,
+      trees: data.obstacles.trees,
+      poles: data.obstacles.poles,
+      other: data.obstacles.other,
+    })
+  );
@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { ArrowLeft, CheckCircle2, Clock, Download, FileSpreadsheet, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { streamBatch } from "@/lib/analysis-stream";
+import { downloadFile, parseCsv, toCsv } from "@/lib/csv";
+import { OBSTACLE_KINDS, obstacleCountSummary } from "@/lib/obstacle-categories";
+import { analysisPath } from "@/lib/permalink";
+import { parseGeographicPostcode } from "@shared/postcode.ts";
+import type { BatchSummary } from "@/types/analysis";
+
+// analyze-batch requests in flight at once, each carrying one postcode so it
+// stays well inside the edge-function wall clock: one uncached site already
+// uses about half of Open-Meteo's per-minute budget
+const BATCH_CONCURRENCY = 2;
+
+interface BatchRow {
+  input: string;
+  postcode: string | null; // normalised, null when the input isn't a postcode
+  status: "queued" | "running" | "completed" | "failed";
+  summary?: BatchSummary;
+  error?: string;
+}
+
+// The obstacle counts follow as one `<kind>_count` column per kind
+const SUMMARY_COLUMNS: Array<Exclude<keyof BatchSummary, "obstacle_counts">> = [
+  "analysis_id",
+  "lat",
+  "lon",
+  "geocoder",
+  "shading_loss_percent",
+  "annual_yield_kwh",
+  "specific_yield_kwh_kwp",
+  "mean_temperature_c",
+  "annual_precipitation_mm",
+  "annual_sunshine_hours",
+  "annual_ghi_kwh_m2",
+  "annual_poa_kwh_m2",
+];
+
+const STATUS_ICONS: Record<BatchRow["status"], JSX.Element> = {
+  queued: <Clock className="h-4 w-4 text-muted-foreground" />,
+  running: <Loader2 className="h-4 w-4 animate-spin text-primary" />,
+  completed: <CheckCircle2 className="h-4 w-4 text-green-500" />,
+  failed: <XCircle className="h-4 w-4 text-destructive" />,
+};
+
+// Uses the column headed "postcode" (or "post code") when there is one,
+// otherwise the first column of every row
+const readPostcodes = (text: string): string[] => {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+
+  const headerColumn = rows[0].findIndex((cell) => /^post\s*code$/i.test(cell.trim()));
+  const values = headerColumn >= 0
+    ? rows.slice(1).map((row) => row[headerColumn] ?? "")
+    : rows.map((row) => row[0]);
+
+  return values.map((value) => value.trim()).filter(Boolean);
+};
+
+const toBatchRow = (input: string): BatchRow => {
+  const parsed = parseGeographicPostcode(input);
+  return parsed.valid === false
+    ? { input, postcode: null, status: "failed", error: parsed.message }
+    : { input, postcode: parsed.postcode, status: "queued" };
+};
+
+const Batch = () => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const finished = rows.filter((row) => row.status === "completed" || row.status === "failed").length;
+  const failed = rows.filter((row) => row.status === "failed").length;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const postcodes = readPostcodes(await file.text());
+    if (postcodes.length === 0) {
+      toast.error(`No postcodes found in ${file.name}`);
+      return;
+    }
+    setFileName(file.name);
+    setRows(postcodes.map(toBatchRow));
+  };
+
+  const updateRow = (index: number, update: Partial<BatchRow>) =>
+    setRows((prev) => prev.map((row, rowIndex) => (rowIndex === index ? { ...row, ...update } : row)));
+
+  // Sends each valid postcode in its own request, BATCH_CONCURRENCY at a time.
+  // A request that fails outright stops the workers taking new postcodes.
+  const handleRun = async () => {
+    const queued = rows
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => row.postcode !== null)
+      .map(({ row, index }) => ({ postcode: row.postcode!, index }));
+    queued.forEach(({ index }) => updateRow(index, { status: "queued", summary: undefined, error: undefined }));
+
+    setRunning(true);
+    try {
+      let next = 0;
+      let stopped: unknown = null;
+      const worker = async () => {
+        while (next < queued.length && !stopped) {
+          const { postcode, index } = queued[next++];
+          try {
+            await streamBatch({ postcodes: [postcode] }, (event) => {
+              if (event.status === "running") updateRow(index, { status: "running" });
+              else if (event.status === "completed") updateRow(index, { status: "completed", summary: event.summary });
+              else updateRow(index, { status: "failed", error: event.error });
+            });
+          } catch (error) {
+            stopped ??= error;
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, queued.length) }, worker));
+      if (stopped) throw stopped;
+      toast.success("Batch analysis finished");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+      toast.error(`Batch analysis stopped: ${errorMessage}`);
+      setRows((prev) =>
+        prev.map((row) =>
+          row.status === "queued" || row.status === "running" ? { ...row, status: "failed", error: errorMessage } : row
+        )
+      );
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const csv = toCsv(
+      ["input", "postcode", "status", "error", ...SUMMARY_COLUMNS, ...OBSTACLE_KINDS.map((kind) => `${kind}_count`)],
+      rows.map((row) => [
+        row.input,
+        row.postcode,
+        row.status,
+        row.error,
+        ...SUMMARY_COLUMNS.map((column) => row.summary?.[column]),
+        ...OBSTACLE_KINDS.map((kind) => row.summary?.obstacle_counts[kind]),
+      ])
+    );
+    downloadFile(`solar-batch-${format(new Date(), "yyyy-MM-dd-HHmm")}.csv`, csv);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2 flex items-center gap-3">
+              <FileSpreadsheet className="h-7 w-7 text-primary" />
+              Batch Analysis
+            </h1>
+            <p className="text-muted-foreground">
+              Screen many sites at once from a CSV of postcodes, using the default 4 kWp system
+            </p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link to="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Single site
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="p-4 space-y-3">
+          <label className="text-sm font-medium text-foreground">Upload CSV</label>
+          <p className="text-xs text-muted-foreground">
+            One postcode per row, either in a column headed "postcode" or in the first column.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              disabled={running}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="max-w-sm"
+            />
+            <Button onClick={handleRun} disabled={running || rows.every((row) => row.postcode === null)}>
+              {running ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Analysing
+                </>
+              ) : (
+                "Analyse all"
+              )}
+            </Button>
+            <Button variant="secondary" onClick={handleDownload} disabled={finished === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Download results
+            </Button>
+          </div>
+          {rows.length > 0 && (
+            <div className="space-y-1">
+              <Progress value={(finished / rows.length) * 100} />
+              <p className="text-xs text-muted-foreground">
+                {fileName}: {finished} of {rows.length} sites done{failed > 0 && `, ${failed} failed`}
+              </p>
+            </div>
+          )}
+        </Card>
+
+        {rows.length > 0 && (
+          <Card className="p-0 overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Postcode</TableHead>
+                  <TableHead>Obstacles</TableHead>
+                  <TableHead className="text-right">Shading loss</TableHead>
+                  <TableHead className="text-right">Annual yield</TableHead>
+                  <TableHead className="text-right">Sunshine</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow key={`${row.input}-${index}`}>
+                    <TableCell>{STATUS_ICONS[row.status]}</TableCell>
+                    <TableCell className="font-medium">
+                      {row.postcode ?? row.input}
+                      {row.error && <p className="text-xs font-normal text-destructive">{row.error}</p>}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {row.summary ? obstacleCountSummary(row.summary.obstacle_counts) : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.summary ? `${row.summary.shading_loss_percent.toFixed(1)}%` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.summary ? `${row.summary.annual_yield_kwh.toLocaleString()} kWh` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.summary ? `${row.summary.annual_sunshine_hours.toLocaleString()} h` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.summary && (
+                        <Button size="sm" variant="secondary" asChild>
+                          <Link to={analysisPath({ id: row.summary.analysis_id, postcode: row.postcode })}>Open</Link>
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Batch;
@@ -0,0 +1,363 @@
+import { Fragment, useCallback, useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import type { FeatureGroup, Map as LeafletMap } from "leaflet";
+import { toast } from "sonner";
+import { ArrowLeft, Columns2, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { streamAnalysis } from "@/lib/analysis-stream";
+import { fetchAnalysis } from "@/lib/analyses";
+import { loadLeaflet, type Leaflet } from "@/lib/leaflet";
+import { OBSTACLE_KIND_STYLES, OBSTACLE_KINDS } from "@/lib/obstacle-categories";
+import { analysisPath, compareQuery, MAX_COMPARED_SITES, readCompareIds } from "@/lib/permalink";
+import { parseGeographicPostcode } from "@shared/postcode.ts";
+import type { AnalysisData } from "@/types/analysis";
+
+// One colour per site, used for the boundary, the table header and the legend
+const SITE_COLORS = ["#3b82f6", "#ef4444", "#22c55e", "#a855f7"];
+
+// The first colour no site on the page has, so a site keeps its colour when
+// another is removed
+const freeColor = (sites: ComparedSite[]) =>
+  SITE_COLORS.find((color) => !sites.some((site) => site.color === color)) ?? SITE_COLORS[0];
+
+interface ComparedSite {
+  key: string;
+  label: string;
+  color: string;
+  status: "loading" | "ready" | "failed";
+  data?: AnalysisData;
+  error?: string;
+}
+
+const annualSunshineHours = (data: AnalysisData) =>
+  data.weather.reduce((sum, month) => sum + month.sunshine_monthly_total, 0);
+
+// Rows of the summary table; `best` marks which end of the range wins
+const SUMMARY_METRICS: Array<{
+  label: string;
+  value: (data: AnalysisData) => number;
+  format: (value: number) => string;
+  best?: "min" | "max";
+  // Left out when every compared site has none
+  optional?: boolean;
+}> = [
+  ...OBSTACLE_KINDS.map((kind) => ({
+    label: OBSTACLE_KIND_STYLES[kind].label,
+    value: (data: AnalysisData) => data.category_counts[kind],
+    format: String,
+    best: "min" as const,
+    optional: true,
+  })),
+  {
+    label: "Shading loss",
+    value: (data) => data.shading.annual_loss_percent,
+    format: (value) => `${value.toFixed(1)}%`,
+    best: "min",
+  },
+  {
+    label: "Annual sunshine",
+    value: annualSunshineHours,
+    format: (value) => `${Math.round(value).toLocaleString()} h`,
+    best: "max",
+  },
+  { label: "System size", value: (data) => data.energy.parameters.kwp, format: (value) => `${value} kWp` },
+  {
+    label: "Annual yield",
+    value: (data) => data.energy.annual_kwh,
+    format: (value) => `${Math.round(value).toLocaleString()} kWh`,
+    best: "max",
+  },
+  {
+    label: "Specific yield",
+    value: (data) => data.energy.specific_yield_kwh_kwp,
+    format: (value) => `${value.toFixed(0)} kWh/kWp`,
+    best: "max",
+  },
+];
+
+const Compare = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The saved analyses named in the link when the page opened
+  const [linkedIds] = useState(() => readCompareIds(searchParams).slice(0, MAX_COMPARED_SITES));
+  const [sites, setSites] = useState<ComparedSite[]>(() =>
+    linkedIds.map((id, index) => ({ key: id, label: "Loading...", color: SITE_COLORS[index], status: "loading" }))
+  );
+  const [postcode, setPostcode] = useState("");
+  const mapRef = useRef<HTMLDivElement>(null);
+  const leafletRef = useRef<Leaflet | null>(null);
+  const mapInstanceRef = useRef<LeafletMap | null>(null);
+  const layersRef = useRef<FeatureGroup | null>(null);
+  const [mapReady, setMapReady] = useState(false);
+
+  const updateSite = useCallback(
+    (key: string, update: Partial<ComparedSite>) =>
+      setSites((prev) => prev.map((site) => (site.key === key ? { ...site, ...update } : site))),
+    []
+  );
+
+  const showSite = useCallback(
+    (key: string, data: AnalysisData) =>
+      updateSite(key, { key: data.id ?? key, label: data.site.label, status: "ready", data }),
+    [updateSite]
+  );
+
+  // Load the saved analyses named in the link
+  useEffect(() => {
+    linkedIds.forEach((key) =>
+      fetchAnalysis(key)
+        .then((data) => showSite(key, data))
+        .catch((error) => updateSite(key, { label: key.slice(0, 8), status: "failed", error: error.message }))
+    );
+  }, [linkedIds, showSite, updateSite]);
+
+  // Keep the link pointing at the saved analyses on screen
+  useEffect(() => {
+    const ids = sites.filter((site) => site.data?.id).map((site) => site.data!.id!);
+    const query = compareQuery(ids);
+    if (query.toString() !== searchParams.toString()) setSearchParams(query, { replace: true });
+  }, [sites, searchParams, setSearchParams]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLeaflet()
+      .then((L) => {
+        if (cancelled || !mapRef.current || mapInstanceRef.current) return;
+        const map = L.map(mapRef.current).setView([54.5, -3], 5);
+        L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+          attribution: "© OpenStreetMap contributors",
+          maxZoom: 19,
+        }).addTo(map);
+        leafletRef.current = L;
+        mapInstanceRef.current = map;
+        setMapReady(true);
+      })
+      .catch((error) => {
+        console.error("Error loading Leaflet:", error);
+        if (!cancelled) toast.error("The map could not be loaded");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Redraw every boundary in its site's colour and fit them all in view
+  useEffect(() => {
+    if (!mapReady) return;
+    const L = leafletRef.current;
+
+    layersRef.current?.remove();
+    layersRef.current = L.featureGroup().addTo(mapInstanceRef.current);
+
+    sites.forEach((site) => {
+      if (!site.data) return;
+      L.geoJSON(site.data.boundary, {
+        style: { color: site.color, weight: 3, fillColor: site.color, fillOpacity: 0.15 },
+      })
+        .bindTooltip(site.label)
+        .addTo(layersRef.current);
+      L.circleMarker([site.data.location.lat, site.data.location.lon], {
+        color: "white",
+        weight: 2,
+        fillColor: site.color,
+        fillOpacity: 1,
+        radius: 6,
+      }).addTo(layersRef.current);
+    });
+
+    const bounds = layersRef.current.getBounds();
+    if (bounds.isValid()) mapInstanceRef.current.fitBounds(bounds, { padding: [40, 40], maxZoom: 16 });
+  }, [sites, mapReady]);
+
+  const handleAdd = async () => {
+    const parsed = parseGeographicPostcode(postcode);
+    if (parsed.valid === false) {
+      toast.error(parsed.reason === "empty" ? "Please enter a UK postcode" : parsed.message);
+      return;
+    }
+
+    const key = `pending:${Date.now()}`;
+    setSites((prev) => [...prev, { key, label: parsed.postcode, color: freeColor(prev), status: "loading" }]);
+    setPostcode("");
+
+    try {
+      const data = await streamAnalysis({ postcode: parsed.postcode }, { onProgress: () => {} });
+      showSite(key, data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+      updateSite(key, { status: "failed", error: errorMessage });
+      toast.error(`Failed to analyze ${parsed.postcode}: ${errorMessage}`);
+    }
+  };
+
+  const removeSite = (key: string) => setSites((prev) => prev.filter((site) => site.key !== key));
+
+  const ready = sites.filter((site) => site.data);
+
+  const visibleMetrics = SUMMARY_METRICS.filter(
+    (metric) => !metric.optional || ready.some((site) => metric.value(site.data!) > 0)
+  );
+
+  const bestValue = (metric: (typeof SUMMARY_METRICS)[number]) => {
+    if (!metric.best || ready.length < 2) return null;
+    const values = ready.map((site) => metric.value(site.data!));
+    return metric.best === "max" ? Math.max(...values) : Math.min(...values);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2 flex items-center gap-3">
+              <Columns2 className="h-7 w-7 text-primary" />
+              Compare Sites
+            </h1>
+            <p className="text-muted-foreground">Up to {MAX_COMPARED_SITES} analyses side by side</p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link to="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Single site
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="p-4 space-y-3">
+          <div className="flex gap-2 max-w-md">
+            <Input
+              type="text"
+              placeholder="Add a postcode, e.g. SW1A 0AA"
+              value={postcode}
+              onChange={(e) => setPostcode(e.target.value.toUpperCase())}
+              onKeyPress={(e) => e.key === "Enter" && handleAdd()}
+              disabled={sites.length >= MAX_COMPARED_SITES}
+            />
+            <Button onClick={handleAdd} disabled={sites.length >= MAX_COMPARED_SITES || !postcode.trim()}>
+              Add site
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            New sites use the default 4 kWp system. To compare saved analyses, select them in the{" "}
+            <Link to="/history" className="underline">history</Link>.
+          </p>
+          {sites.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {sites.map((site) => (
+                <div
+                  key={site.key}
+                  className="flex items-center gap-2 rounded-md border border-border px-2 py-1 text-sm"
+                >
+                  <span className="h-3 w-3 rounded-full" style={{ backgroundColor: site.color }} />
+                  {site.status === "loading" && <Loader2 className="h-3 w-3 animate-spin" />}
+                  <span className={site.status === "failed" ? "text-destructive" : "text-foreground"}>
+                    {site.label}
+                  </span>
+                  {site.error && <span className="text-xs text-destructive">({site.error})</span>}
+                  <button
+                    type="button"
+                    onClick={() => removeSite(site.key)}
+                    className="text-muted-foreground hover:text-foreground"
+                    aria-label={`Remove ${site.label}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        <div ref={mapRef} className="h-[400px] w-full rounded-lg border border-border bg-muted" style={{ zIndex: 0 }} />
+
+        {ready.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add two or more sites to compare them.</p>
+        ) : (
+          <>
+            <Card className="p-0 overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    {ready.map((site) => (
+                      <TableHead key={site.key} className="text-right">
+                        <Link
+                          to={analysisPath({ id: site.data!.id, postcode: site.data!.postcode }) ?? "/"}
+                          className="inline-flex items-center gap-2 hover:underline"
+                        >
+                          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: site.color }} />
+                          {site.label}
+                        </Link>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleMetrics.map((metric) => {
+                    const best = bestValue(metric);
+                    return (
+                      <TableRow key={metric.label}>
+                        <TableCell className="font-medium">{metric.label}</TableCell>
+                        {ready.map((site) => {
+                          const value = metric.value(site.data!);
+                          return (
+                            <TableCell
+                              key={site.key}
+                              className={`text-right ${value === best ? "font-semibold text-primary" : ""}`}
+                            >
+                              {metric.format(value)}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </Card>
+
+            <Card className="p-0 overflow-hidden">
+              <h2 className="text-lg font-semibold text-foreground px-4 pt-4">Monthly sunshine and yield</h2>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    {ready.map((site) => (
+                      <TableHead key={site.key} className="text-right" colSpan={2}>
+                        <span className="inline-flex items-center gap-2">
+                          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: site.color }} />
+                          {site.label}
+                        </span>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ready[0].data!.weather.map((month, monthIndex) => (
+                    <TableRow key={month.month}>
+                      <TableCell className="font-medium">{month.month}</TableCell>
+                      {ready.map((site) => (
+                        <Fragment key={site.key}>
+                          <TableCell className="text-right text-muted-foreground">
+                            {site.data!.weather[monthIndex].sunshine_monthly_total.toFixed(0)} h
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {site.data!.energy.monthly[monthIndex].energy_kwh.toFixed(0)} kWh
+                          </TableCell>
+                        </Fragment>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Compare;
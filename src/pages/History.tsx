@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Columns2, History as HistoryIcon, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { listAnalyses } from "@/lib/analyses";
+import { obstacleCountSummary } from "@/lib/obstacle-categories";
+import { analysisPath, comparePath, MAX_COMPARED_SITES } from "@/lib/permalink";
+
+const History = () => {
+  const navigate = useNavigate();
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const { data: rows, isLoading, error } = useQuery({
+    queryKey: ["analyses", search.trim().toUpperCase()],
+    queryFn: () => listAnalyses(search),
+  });
+
+  // Saved rows already hold the full result, so reopening skips the upstream APIs
+  const openAnalysis = (row: { id: string; postcode: string | null }) => navigate(analysisPath(row));
+
+  const toggleSelected = (id: string, checked: boolean) =>
+    setSelected((prev) => (checked ? [...prev, id] : prev.filter((selectedId) => selectedId !== id)));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2 flex items-center gap-3">
+              <HistoryIcon className="h-7 w-7 text-primary" />
+              Analysis History
+            </h1>
+            <p className="text-muted-foreground">Past site analyses, newest first</p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="secondary"
+              onClick={() => navigate(comparePath(selected))}
+              disabled={selected.length < 2}
+            >
+              <Columns2 className="mr-2 h-4 w-4" />
+              Compare{selected.length > 0 && ` (${selected.length})`}
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                New analysis
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        <Input
+          type="search"
+          placeholder="Search by postcode or site, e.g. SW1A"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="max-w-sm"
+        />
+
+        <Card className="p-0 overflow-hidden">
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 p-8 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading analyses...
+            </div>
+          ) : error ? (
+            <p className="p-8 text-sm text-destructive">
+              Failed to load history: {error instanceof Error ? error.message : "Unknown error"}
+            </p>
+          ) : !rows || rows.length === 0 ? (
+            <p className="p-8 text-sm text-muted-foreground">
+              {search.trim() ? `No analyses match "${search.trim()}".` : "No analyses saved yet."}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Site</TableHead>
+                  <TableHead>Area</TableHead>
+                  <TableHead>Obstacles</TableHead>
+                  <TableHead className="text-right">Shading loss</TableHead>
+                  <TableHead className="text-right">Annual yield</TableHead>
+                  <TableHead>Analysed</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.includes(row.id)}
+                        onCheckedChange={(checked) => toggleSelected(row.id, checked === true)}
+                        disabled={!selected.includes(row.id) && selected.length >= MAX_COMPARED_SITES}
+                        aria-label={`Select ${row.label} for comparison`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{row.label}</TableCell>
+                    <TableCell className="text-muted-foreground">{row.area ?? "—"}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {obstacleCountSummary(row.category_counts)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.annual_loss_percent !== null ? `${row.annual_loss_percent.toFixed(1)}%` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.annual_kwh !== null ? `${Math.round(row.annual_kwh).toLocaleString()} kWh` : "—"}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(row.created_at), "d MMM yyyy, HH:mm")}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="secondary" onClick={() => openAnalysis(row)}>
+                        Open
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default History;
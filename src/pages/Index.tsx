@@ -1,7 +1,9 @@
+import { useParams } from "react-router-dom";
 import SolarAnalysis from "@/components/SolarAnalysis";
 
 const Index = () => {
-  return <SolarAnalysis />;
+  const { postcode, id } = useParams();
+  return <SolarAnalysis initialPostcode={postcode} savedAnalysisId={id} />;
 };
 
 export default Index;
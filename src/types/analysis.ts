@@ -0,0 +1,241 @@
+// Shapes returned by the analyze edge function (supabase/functions/analyze)
+
+import type { Feature, Geometry as GeoJsonGeometry } from "geojson";
+import type { HorizonProfile } from "@shared/horizon.ts";
+import type { ObstacleCategory } from "@shared/obstacles.ts";
+
+export type { HorizonProfile, ObstacleCategory };
+
+// Buildings plus every category of the OSM obstacle taxonomy
+export type ObstacleKind = "building" | ObstacleCategory;
+
+export type AnalysisStep = "geocode" | "overpass" | "climate" | "post-processing";
+
+export type ProgressEvent =
+  | { step: AnalysisStep; status: "started" }
+  | {
+      step: AnalysisStep;
+      status: "completed";
+      duration_ms: number;
+      data: Partial<AnalysisData> & { counts?: Record<string, number> };
+    };
+
+// Where an obstacle sits relative to the site boundary: on the site, within
+// the requested buffer around it, or elsewhere in the queried box
+export type ObstacleZone = "inside" | "buffer" | "outside";
+
+export type OsmElementType = "node" | "way" | "relation";
+
+// The geocoders return either a bare geometry or a Feature
+export type SiteBoundary = GeoJsonGeometry | Feature;
+
+// Single trees and poles. The zone is missing when the analysis wasn't zoned.
+export interface ObstaclePoint {
+  lat: number;
+  lon: number;
+  osm_type: OsmElementType;
+  osm_id: number;
+  height_m: number;
+  height_source: "height" | "default";
+  tags: Record<string, string>;
+  zone?: ObstacleZone;
+}
+
+// Any obstacle besides buildings, single trees and poles; ways keep their line
+// or area geometry
+export interface ObstacleFeature {
+  category: ObstacleCategory;
+  osm_type: OsmElementType;
+  osm_id: number;
+  lat: number;
+  lon: number;
+  height_m: number;
+  height_source: "height" | "default";
+  tags: Record<string, string>;
+  geometry:
+    | { type: "Point"; coordinates: number[] }
+    | { type: "LineString"; coordinates: number[][] }
+    | { type: "Polygon"; coordinates: number[][][] };
+  zone?: ObstacleZone;
+}
+
+export interface BuildingFeature {
+  type: "Feature";
+  geometry:
+    | { type: "Polygon"; coordinates: number[][][] }
+    | { type: "Point"; coordinates: number[] };
+  properties: {
+    osm_id: number;
+    osm_type: OsmElementType;
+    height_m: number;
+    height_source: "height" | "levels" | "default";
+    height: string | null;
+    "building:levels": string | null;
+    "roof:shape": string | null;
+    tags: Record<string, string>;
+    centroid: { lat: number; lon: number };
+    zone?: ObstacleZone;
+  };
+}
+
+export interface GeocodingSummary {
+  provider: string;
+  confidence: number;
+  admin: Record<string, string | null>;
+  attempts: Array<{ provider: string; outcome: "matched" | "no_match" | "failed"; error?: string }>;
+}
+
+// What was analysed; `label` is the postcode, or coordinates for drawn sites
+export interface AnalysisSite {
+  kind: "postcode" | "point" | "polygon";
+  label: string;
+  radius_m: number | null;
+  buffer_m: number;
+}
+
+// Statistics of one value across historical years; P90 is exceeded in nine
+// years out of ten (normal approximation), the mean is the P50
+export interface Spread {
+  mean: number;
+  min: number;
+  max: number;
+  std: number;
+  p90: number;
+  years: number;
+}
+
+export interface AnalysisData {
+  id: string | null; // row in the analyses table, null if it wasn't saved
+  postcode: string | null; // null for point and polygon sites
+  site: AnalysisSite;
+  location: { lat: number; lon: number };
+  geocoding: GeocodingSummary | null; // only postcode sites are geocoded
+  boundary: SiteBoundary;
+  obstacles: {
+    buildings: { type: "FeatureCollection"; features: BuildingFeature[] };
+    trees: ObstaclePoint[];
+    poles: ObstaclePoint[];
+    other: ObstacleFeature[];
+  };
+  category_counts: Record<ObstacleKind, number>;
+  // Null when zoning wasn't requested or the site had no outline to classify
+  // obstacles against
+  zone_counts: Record<ObstacleZone, Record<ObstacleKind, number>> | null;
+  weather: Array<{
+    month: string;
+    temperature_2m_mean: number; // °C
+    precipitation_sum: number; // daily mean, mm/day
+    precipitation_monthly_total: number; // mm/month
+    sunshine_duration: number; // daily mean, h/day
+    sunshine_monthly_total: number; // h/month
+    // Irradiation totals in kWh/m² per month
+    shortwave_radiation_sum: number;
+    direct_normal_irradiance_sum: number;
+    diffuse_radiation_sum: number;
+    plane_of_array_sum: number;
+    plane_of_array_beam_sum: number;
+  }>;
+  // Unit of each weather field, keyed by field name
+  weather_units: Record<string, string>;
+  // The monthly values above for each calendar year; null for months outside
+  // the five-year window, and totals are null for incomplete months
+  climate_years: Array<{
+    year: number;
+    months: Array<{
+      month: string;
+      temperature_2m_mean: number | null;
+      precipitation_sum: number | null;
+      precipitation_monthly_total: number | null;
+      sunshine_duration: number | null;
+      sunshine_monthly_total: number | null;
+      plane_of_array_sum: number | null;
+      plane_of_array_beam_sum: number | null;
+    }>;
+  }>;
+  // Year-to-year spread of the climate and of the yield model run on each year
+  variability: {
+    monthly: Array<{
+      month: string;
+      temperature_2m_mean: Spread | null;
+      precipitation_sum: Spread | null;
+      precipitation_monthly_total: Spread | null;
+      sunshine_duration: Spread | null;
+      sunshine_monthly_total: Spread | null;
+      plane_of_array_sum: Spread | null;
+      energy_kwh: Spread | null;
+    }>;
+    yearly_energy: Array<{ year: number; monthly_kwh: Array<number | null>; annual_kwh: number | null }>;
+    annual_kwh: Spread | null; // complete years only
+  };
+  shading: {
+    annual_loss_percent: number;
+    sample_count: number;
+    obstacles: Array<{
+      type: ObstacleKind;
+      ref: string | null; // OSM reference, "way/123"
+      height_m: number;
+      lat: number;
+      lon: number;
+      distance_m: number;
+      bearing: number;
+      obstruction_elevation: number;
+      loss_percent: number;
+    }>;
+    // Loss per OSM reference for every obstacle that blocks any sun
+    loss_by_ref: Record<string, number>;
+  };
+  // Highest obstruction per azimuth bin, from north clockwise
+  horizon: HorizonProfile;
+  energy: {
+    parameters: SystemParameters;
+    array_area_m2: number;
+    monthly: Array<{
+      month: string;
+      irradiation_kwh_m2: number;
+      temperature_factor: number;
+      energy_kwh: number;
+    }>;
+    annual_kwh: number;
+    specific_yield_kwh_kwp: number;
+  };
+  meta: {
+    retrieved_at: string; // ISO timestamp of the upstream fetches
+    timings_ms: Partial<Record<AnalysisStep, number>>;
+    cache: {
+      store: string;
+      hits: number;
+      misses: number;
+      lookups: Array<{ source: "geocode" | "overpass" | "climate"; key: string; hit: boolean }>;
+    };
+  };
+}
+
+export interface SystemParameters {
+  kwp: number;
+  tilt: number;
+  azimuth: number;
+  module_efficiency_percent: number;
+  system_losses_percent: number;
+}
+
+// One site of an analyze-batch run (supabase/functions/analyze-batch)
+export interface BatchSummary {
+  analysis_id: string | null;
+  lat: number;
+  lon: number;
+  geocoder: string | null;
+  obstacle_counts: Record<ObstacleKind, number>; // the analysis's category_counts
+  shading_loss_percent: number;
+  annual_yield_kwh: number;
+  specific_yield_kwh_kwp: number;
+  mean_temperature_c: number;
+  annual_precipitation_mm: number;
+  annual_sunshine_hours: number;
+  annual_ghi_kwh_m2: number;
+  annual_poa_kwh_m2: number;
+}
+
+export type BatchRowEvent =
+  | { index: number; postcode: string; status: "running" }
+  | { index: number; postcode: string; status: "completed"; summary: BatchSummary }
+  | { index: number; postcode: string; status: "failed"; error: string };
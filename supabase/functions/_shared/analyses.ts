@@ -0,0 +1,37 @@
+// Persistence of completed analyses to the `analyses` table
+
+import type { AnalysisRequest, AnalysisResult } from "./analysis.ts";
+import { getServiceClient } from "./supabase.ts";
+
+// Returns the new row id, or null if the analysis could not be stored. Saving
+// is best-effort: the caller still gets its result when the database is down.
+export const saveAnalysis = async (request: AnalysisRequest, result: AnalysisResult): Promise<string | null> => {
+  const client = getServiceClient();
+  if (!client) return null;
+
+  const {
+    postcode, site, location, boundary, obstacles, category_counts, zone_counts, weather, weather_units,
+    climate_years, variability, geocoding, shading, horizon, energy, meta,
+  } = result;
+  const { data, error } = await client
+    .from('analyses')
+    .insert({
+      postcode,
+      site,
+      location,
+      boundary,
+      obstacles,
+      weather,
+      parameters: request.system,
+      results: { geocoding, category_counts, zone_counts, weather_units, climate_years, variability, shading, horizon, energy, meta },
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Failed to save analysis:', error);
+    return null;
+  }
+
+  return data.id;
+};
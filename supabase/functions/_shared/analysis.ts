@@ -0,0 +1,609 @@
+// The analysis pipeline behind the analyze function: locate the site → Overpass
+// obstacles → Open-Meteo climate → shading and yield post-processing. Each step
+// is reported through `onProgress` so callers can stream partial results.
+
+import { annualSunSamples, DAYS_IN_MONTH } from "./solar.ts";
+import { computeShading, obstacleSilhouettes, shadingInputs } from "./shading.ts";
+import { horizonProfile } from "./horizon.ts";
+import { estimateYield, type SystemParameters } from "./pv-yield.ts";
+import { aggregateIrradiance, type HourlyRadiation } from "./irradiance.ts";
+import { climateVariability } from "./variability.ts";
+import { toBuildingFeature, type BuildingFeature, type OverpassElement } from "./buildings.ts";
+import {
+  configuredGeocoders,
+  findOutline,
+  geocodeWithFallback,
+  withOutline,
+  type GeocodeAttempt,
+  type GeocodeResult,
+} from "./geocoding/index.ts";
+import { createCacheSession, type CacheSession } from "./cache.ts";
+import { openMeteoCallWeight, upstreamFetch } from "./rate-limit.ts";
+import { boundingBoxAround, boundingBoxOfRing, circleRing, expandBoundingBox, ringCentroid, type BoundingBox } from "./geo.ts";
+import { OBSTACLE_ZONES, zoneClassifier } from "./zones.ts";
+import {
+  categoriseElement,
+  OBSTACLE_CATEGORIES,
+  taxonomyQuery,
+  toObstacleFeature,
+  type ObstacleFeature,
+} from "./obstacles.ts";
+import type { SiteInput } from "./site.ts";
+
+export type AnalysisStep = 'geocode' | 'overpass' | 'climate' | 'post-processing';
+
+export type ProgressEvent =
+  | { step: AnalysisStep; status: 'started' }
+  | { step: AnalysisStep; status: 'completed'; duration_ms: number; data: Record<string, unknown> };
+
+export interface AnalysisRequest {
+  site: SiteInput;
+  system: SystemParameters;
+  // Obstacles this far outside the boundary are fetched and marked 'buffer'
+  buffer_m: number;
+  // Classify obstacles against the site outline. Postcode sites may need an
+  // extra (rate-limited) Nominatim lookup for it, so callers that don't show
+  // zones leave this off.
+  zones: boolean;
+}
+
+// Carries the HTTP status the function should answer with
+export class AnalysisError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+// Single trees and poles: everything but the category and point geometry
+type ObstaclePoint = Omit<ObstacleFeature, 'category' | 'geometry'>;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Bumped whenever the Overpass query changes shape
+const OVERPASS_QUERY_VERSION = 2;
+
+// Bumped whenever the cached geocode result changes shape
+const GEOCODE_CACHE_VERSION = 2;
+
+// How long each upstream response stays fresh. Archived climate years are
+// immutable and are cached with no expiry; a year still within the archive's
+// lag (the current one, and the previous one in early January) is refreshed
+// daily.
+const CACHE_TTL_SECONDS = {
+  geocode: 30 * DAY_SECONDS,
+  overpass: 7 * DAY_SECONDS,
+  climateOpenYear: DAY_SECONDS,
+};
+
+// ERA5 reaches Open-Meteo's archive about five days late; a couple of days'
+// margin before treating a year's last day as final
+const ARCHIVE_LAG_DAYS = 7;
+
+// Open-Meteo's archive grid is ~10 km, so nearby sites can share climate entries
+const CLIMATE_COORDINATE_DECIMALS = 2;
+
+const OPEN_METEO_ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive';
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Units of the monthly weather fields, after Open-Meteo's `daily_units`.
+// precipitation_sum and sunshine_duration are daily means within the month.
+const WEATHER_UNITS = {
+  temperature_2m_mean: '°C',
+  precipitation_sum: 'mm/day',
+  precipitation_monthly_total: 'mm/month',
+  sunshine_duration: 'h/day',
+  sunshine_monthly_total: 'h/month',
+  shortwave_radiation_sum: 'kWh/m²/month',
+  direct_normal_irradiance_sum: 'kWh/m²/month',
+  diffuse_radiation_sum: 'kWh/m²/month',
+  plane_of_array_sum: 'kWh/m²/month',
+  plane_of_array_beam_sum: 'kWh/m²/month',
+};
+
+// Runs `task` as a named step, reporting its start, duration and partial result
+const runStep = async <T>(
+  step: AnalysisStep,
+  onProgress: (event: ProgressEvent) => void,
+  task: () => Promise<T>,
+  partial: (result: T) => Record<string, unknown>
+): Promise<{ result: T; duration_ms: number }> => {
+  onProgress({ step, status: 'started' });
+  const started = Date.now();
+  const result = await task();
+  const duration_ms = Date.now() - started;
+  onProgress({ step, status: 'completed', duration_ms, data: partial(result) });
+  return { result, duration_ms };
+};
+
+// Step 1: Geocode the postcode, falling back through the configured providers
+const geocodePostcode = async (postcode: string, cache: CacheSession, zones: boolean) => {
+  console.log('Step 1: Geocoding postcode...');
+  const geocoders = configuredGeocoders();
+  // Versioned so results cached before they carried an outline aren't reused
+  const cacheKey = `geocode:${GEOCODE_CACHE_VERSION}:${geocoders.map(geocoder => geocoder.name).join(',')}:${postcode}`;
+
+  let attempts: GeocodeAttempt[] = [];
+  const result = await cache.fetch<GeocodeResult | null>('geocode', cacheKey, CACHE_TTL_SECONDS.geocode, async () => {
+    const geocoded = await geocodeWithFallback(postcode, geocoders);
+    attempts = geocoded.attempts;
+    return geocoded.result;
+  });
+
+  if (!result) {
+    throw new AnalysisError('Postcode not found', 404);
+  }
+
+  console.log('Location found:', { provider: result.provider, lat: result.lat, lon: result.lon, boundingBox: result.boundingBox });
+
+  if (!zones || result.outline) return { ...result, attempts };
+
+  // Borrow an outline from the other providers, cached like the geocode
+  // itself (wrapped, so "none found" is cached too)
+  const others = geocoders.filter(geocoder => geocoder.name !== result.provider);
+  const { outline } = await cache.fetch(
+    'geocode',
+    `outline:${GEOCODE_CACHE_VERSION}:${others.map(geocoder => geocoder.name).join(',')}:${postcode}`,
+    CACHE_TTL_SECONDS.geocode,
+    async () => ({ outline: await findOutline(postcode, others) })
+  );
+
+  return { ...withOutline(result, outline), attempts };
+};
+
+// Step 2: Get obstacles from Overpass API
+const fetchObstacles = async (boundingBox: BoundingBox, cache: CacheSession) => {
+  console.log('Step 2: Fetching obstacles...');
+  const bbox = `${boundingBox[0]},${boundingBox[2]},${boundingBox[1]},${boundingBox[3]}`;
+  const overpassQuery = `
+    [out:json];
+    (
+      node["building"](${bbox});
+      way["building"](${bbox});
+      ${taxonomyQuery(bbox)}
+    );
+    out geom;
+  `;
+
+  // Versioned so cached responses from before a taxonomy change aren't reused
+  const cacheKey = `overpass:${OVERPASS_QUERY_VERSION}:${boundingBox.map(value => value.toFixed(5)).join(',')}`;
+  const overpassData = await cache.fetch('overpass', cacheKey, CACHE_TTL_SECONDS.overpass, async () => {
+    const overpassUrl = 'https://overpass-api.de/api/interpreter';
+    const overpassResponse = await upstreamFetch('overpass', overpassUrl, {
+      method: 'POST',
+      body: overpassQuery,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      }
+    });
+
+    if (!overpassResponse.ok) {
+      console.error('Overpass API error:', overpassResponse.status);
+      throw new Error(`Overpass API error: ${overpassResponse.status}`);
+    }
+
+    return overpassResponse.json();
+  });
+  console.log('Overpass elements found:', overpassData.elements?.length || 0);
+
+  // Process obstacles: buildings first, then the taxonomy categories. Single
+  // trees and poles stay plain points; everything else keeps its geometry.
+  const buildings: BuildingFeature[] = [];
+  const trees: ObstaclePoint[] = [];
+  const poles: ObstaclePoint[] = [];
+  const other: ObstacleFeature[] = [];
+
+  overpassData.elements?.forEach((element: OverpassElement) => {
+    if (element.tags?.building) {
+      const feature = toBuildingFeature(element);
+      if (feature) buildings.push(feature);
+      return;
+    }
+
+    const category = categoriseElement(element);
+    if (!category) return;
+
+    const feature = toObstacleFeature(element, category);
+    if (!feature) return;
+
+    const { lat, lon, osm_type, osm_id, height_m, height_source, tags } = feature;
+    const point = { lat, lon, osm_type, osm_id, height_m, height_source, tags };
+    if (category === 'tree') {
+      trees.push(point);
+    } else if (category === 'pole') {
+      poles.push(point);
+    } else {
+      other.push(feature);
+    }
+  });
+
+  console.log('Obstacles processed:', { buildings: buildings.length, trees: trees.length, poles: poles.length, other: other.length });
+
+  return { buildings, trees, poles, other };
+};
+
+const fetchOpenMeteo = async (url: string, weight: number) => {
+  const response = await upstreamFetch('open-meteo', url, undefined, weight);
+
+  if (!response.ok) {
+    console.error('Open-Meteo API error:', response.status);
+    throw new Error(`Open-Meteo API error: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+interface DailyWeather {
+  time: string[];
+  temperature_2m_mean: Array<number | null>;
+  precipitation_sum: Array<number | null>;
+  sunshine_duration: Array<number | null>;
+}
+
+interface ClimateYear {
+  daily: Record<string, Array<string | number | null>>;
+  hourly: Record<string, Array<string | number | null>>;
+}
+
+// One calendar year of daily weather and hourly radiation, up to `endDate`
+// for the current year. Radiation is requested in GMT so each hour can be
+// matched to a sun position.
+const fetchClimateYear = async (lat: number, lon: number, year: number, endDate: string): Promise<ClimateYear> => {
+  const lastDate = endDate < `${year}-12-31` ? endDate : `${year}-12-31`;
+  const range = `start_date=${year}-01-01&end_date=${lastDate}`;
+  const days = (Date.parse(lastDate) - Date.UTC(year, 0, 1)) / (DAY_SECONDS * 1000) + 1;
+
+  // Both requests ask for three variables
+  const [weatherData, radiationData] = await Promise.all([
+    fetchOpenMeteo(
+      `${OPEN_METEO_ARCHIVE_URL}?latitude=${lat}&longitude=${lon}&${range}&daily=temperature_2m_mean,precipitation_sum,sunshine_duration&timezone=auto`,
+      openMeteoCallWeight(days, 3)
+    ),
+    fetchOpenMeteo(
+      `${OPEN_METEO_ARCHIVE_URL}?latitude=${lat}&longitude=${lon}&${range}&hourly=shortwave_radiation,direct_normal_irradiance,diffuse_radiation&timezone=GMT`,
+      openMeteoCallWeight(days, 3)
+    ),
+  ]);
+
+  return { daily: weatherData.daily ?? {}, hourly: radiationData.hourly ?? {} };
+};
+
+// Concatenates the yearly series, keeping only entries on or after `startDate`
+const mergeSeries = (blocks: Array<Record<string, Array<string | number | null>>>, startDate: string) => {
+  const merged: Record<string, Array<string | number | null>> = {};
+
+  blocks.forEach(block => {
+    const keep = (block.time ?? []).map(time => String(time).slice(0, 10) >= startDate);
+    Object.entries(block).forEach(([field, values]) => {
+      merged[field] = (merged[field] ?? []).concat(values.filter((_, index) => keep[index]));
+    });
+  });
+
+  return merged;
+};
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+// Step 3: Get 5-year climate data from Open-Meteo, a calendar year at a time
+// so that completed years can be cached indefinitely
+const fetchClimate = async (siteLat: number, siteLon: number, system: SystemParameters, cache: CacheSession) => {
+  console.log('Step 3: Fetching climate data...');
+  const currentDate = new Date();
+  const fiveYearsAgo = new Date(currentDate);
+  fiveYearsAgo.setFullYear(currentDate.getFullYear() - 5);
+
+  const startDate = fiveYearsAgo.toISOString().split('T')[0];
+  const endDate = currentDate.toISOString().split('T')[0];
+
+  const lat = Number(siteLat.toFixed(CLIMATE_COORDINATE_DECIMALS));
+  const lon = Number(siteLon.toFixed(CLIMATE_COORDINATE_DECIMALS));
+
+  const years: number[] = [];
+  for (let year = fiveYearsAgo.getFullYear(); year <= currentDate.getFullYear(); year++) years.push(year);
+
+  // A year is complete in the archive once its last day is older than the lag
+  const isComplete = (year: number) =>
+    Date.UTC(year, 11, 31) + ARCHIVE_LAG_DAYS * DAY_SECONDS * 1000 < currentDate.getTime();
+
+  const yearly = await Promise.all(years.map(year => {
+    const complete = isComplete(year);
+    return cache.fetch(
+      'climate',
+      `climate:${lat},${lon}:${year}${complete ? '' : `:${endDate}`}`,
+      complete ? null : CACHE_TTL_SECONDS.climateOpenYear,
+      () => fetchClimateYear(lat, lon, year, endDate)
+    );
+  }));
+
+  const daily = mergeSeries(yearly.map(year => year.daily), startDate) as unknown as DailyWeather;
+  console.log('Weather data received');
+
+  const irradiance = aggregateIrradiance(
+    mergeSeries(yearly.map(year => year.hourly), startDate) as unknown as HourlyRadiation,
+    siteLat,
+    siteLon,
+    { tilt: system.tilt, azimuth: system.azimuth }
+  );
+  console.log('Radiation data received');
+
+  // Group daily values by year and calendar month
+  const yearlyData = new Map<number, Array<{ temp: number[], precip: number[], sun: number[] }>>();
+
+  daily.time?.forEach((date: string, index: number) => {
+    const monthIndex = new Date(date).getMonth();
+    const year = new Date(date).getFullYear();
+
+    if (!yearlyData.has(year)) {
+      yearlyData.set(year, MONTH_NAMES.map(() => ({ temp: [], precip: [], sun: [] })));
+    }
+
+    const bucket = yearlyData.get(year)![monthIndex];
+    const temp = daily.temperature_2m_mean[index];
+    const precip = daily.precipitation_sum[index];
+    const sun = daily.sunshine_duration[index];
+
+    if (temp !== null) bucket.temp.push(temp);
+    if (precip !== null) bucket.precip.push(precip);
+    if (sun !== null) bucket.sun.push(sun / 3600); // Convert seconds to hours
+  });
+
+  // Daily means and monthly totals for each calendar year. The first and
+  // current years are partial, so months outside the window are null, and a
+  // month only has a total when every one of its days was reported.
+  const climate_years = [...yearlyData.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([year, months]) => {
+      const radiation = irradiance.years.find(entry => entry.year === year)?.monthly;
+      return {
+        year,
+        months: months.map((data, index) => {
+          const daysInMonth = new Date(Date.UTC(year, index + 1, 0)).getUTCDate();
+          const total = (values: number[]) => values.length === daysInMonth ? values.reduce((a, b) => a + b, 0) : null;
+          return {
+            month: MONTH_NAMES[index],
+            temperature_2m_mean: mean(data.temp),
+            precipitation_sum: mean(data.precip),
+            precipitation_monthly_total: total(data.precip),
+            sunshine_duration: mean(data.sun),
+            sunshine_monthly_total: total(data.sun),
+            plane_of_array_sum: radiation?.[index]?.plane_of_array_sum ?? null,
+            plane_of_array_beam_sum: radiation?.[index]?.plane_of_array_beam_sum ?? null,
+          };
+        }),
+      };
+    });
+
+  // Daily means pool every day in the window; monthly totals average the
+  // complete months, falling back to the daily mean over a typical month
+  const weather = MONTH_NAMES.map((month, index) => {
+    const days = [...yearlyData.values()].map(months => months[index]);
+    const dailyMean = (field: 'temp' | 'precip' | 'sun') => mean(days.flatMap(data => data[field])) ?? 0;
+    const monthlyTotal = (field: 'precipitation_monthly_total' | 'sunshine_monthly_total', fallback: number) =>
+      mean(climate_years.map(year => year.months[index][field]).filter((value): value is number => value !== null)) ??
+        fallback * DAYS_IN_MONTH[index];
+
+    const precipitation = dailyMean('precip');
+    const sunshine = dailyMean('sun');
+    return {
+      month,
+      temperature_2m_mean: dailyMean('temp'),
+      precipitation_sum: precipitation,
+      precipitation_monthly_total: monthlyTotal('precipitation_monthly_total', precipitation),
+      sunshine_duration: sunshine,
+      sunshine_monthly_total: monthlyTotal('sunshine_monthly_total', sunshine),
+      ...irradiance.monthly[index],
+    };
+  });
+
+  console.log('Weather data processed');
+
+  return { weather, climate_years };
+};
+
+const geocodingSummary = ({ provider, confidence, admin, attempts }: Awaited<ReturnType<typeof geocodePostcode>>) => ({
+  provider,
+  confidence,
+  admin,
+  attempts,
+});
+
+interface ResolvedSite {
+  lat: number;
+  lon: number;
+  boundingBox: BoundingBox;
+  boundary: unknown;
+  // The polygon obstacles are zoned against, null when the site has none
+  outline: unknown | null;
+  label: string;
+  radius_m: number | null;
+  // Only postcode sites go through the geocoders
+  geocoding: ReturnType<typeof geocodingSummary> | null;
+}
+
+const coordinateLabel = (lat: number, lon: number) => `${lat.toFixed(5)}, ${lon.toFixed(5)}`;
+
+// Step 1: Turn the requested site into a centre, Overpass bounding box and
+// boundary. Points and drawn polygons are used as given.
+const resolveSite = async (site: SiteInput, cache: CacheSession, zones: boolean): Promise<ResolvedSite> => {
+  if (site.kind === 'postcode') {
+    const geocoded = await geocodePostcode(site.postcode, cache, zones);
+    return {
+      lat: geocoded.lat,
+      lon: geocoded.lon,
+      boundingBox: geocoded.boundingBox,
+      boundary: geocoded.boundary,
+      outline: geocoded.outline,
+      label: site.postcode,
+      radius_m: null,
+      geocoding: geocodingSummary(geocoded),
+    };
+  }
+
+  if (site.kind === 'point') {
+    console.log('Step 1: Using explicit point...', { lat: site.lat, lon: site.lon, radius_m: site.radius_m });
+    const circle = {
+      type: "Feature",
+      properties: { radius_m: site.radius_m },
+      geometry: { type: "Polygon", coordinates: [circleRing(site, site.radius_m)] },
+    };
+    return {
+      lat: site.lat,
+      lon: site.lon,
+      boundingBox: boundingBoxAround(site, site.radius_m),
+      boundary: circle,
+      outline: circle,
+      label: coordinateLabel(site.lat, site.lon),
+      radius_m: site.radius_m,
+      geocoding: null,
+    };
+  }
+
+  console.log('Step 1: Using drawn polygon...');
+  const ring = site.polygon.coordinates[0];
+  const centre = ringCentroid(ring);
+  const drawn = { type: "Feature", properties: {}, geometry: site.polygon };
+  return {
+    ...centre,
+    boundingBox: boundingBoxOfRing(ring),
+    boundary: drawn,
+    outline: drawn,
+    label: `Area at ${coordinateLabel(centre.lat, centre.lon)}`,
+    radius_m: null,
+    geocoding: null,
+  };
+};
+
+export const runAnalysis = async (
+  request: AnalysisRequest,
+  onProgress: (event: ProgressEvent) => void = () => {}
+) => {
+  const timings: Partial<Record<AnalysisStep, number>> = {};
+  const cache = createCacheSession();
+
+  const geocode = await runStep('geocode', onProgress, () => resolveSite(request.site, cache, request.zones), location => ({
+    location: { lat: location.lat, lon: location.lon },
+    boundary: location.boundary,
+    geocoding: location.geocoding,
+  }));
+  timings.geocode = geocode.duration_ms;
+  const { lat, lon, boundingBox, boundary, outline, label, radius_m } = geocode.result;
+  const zoneOf = request.zones ? zoneClassifier(outline, request.buffer_m) : null;
+
+  const overpass = await runStep('overpass', onProgress, async () => {
+    const obstacles = await fetchObstacles(expandBoundingBox(boundingBox, request.buffer_m), cache);
+
+    // Mark each obstacle as inside the outline, in the buffer around it, or
+    // merely inside the queried box; without an outline they stay unzoned
+    return {
+      buildings: obstacles.buildings.map(feature => ({
+        ...feature,
+        properties: { ...feature.properties, zone: zoneOf?.(feature.properties.centroid) },
+      })),
+      trees: obstacles.trees.map(point => ({ ...point, zone: zoneOf?.(point) })),
+      poles: obstacles.poles.map(point => ({ ...point, zone: zoneOf?.(point) })),
+      other: obstacles.other.map(feature => ({ ...feature, zone: zoneOf?.(feature) })),
+    };
+  }, obstacles => ({
+    counts: {
+      buildings: obstacles.buildings.length,
+      trees: obstacles.trees.length,
+      poles: obstacles.poles.length,
+      other: obstacles.other.length,
+    },
+  }));
+  timings.overpass = overpass.duration_ms;
+  const { buildings, trees, poles, other } = overpass.result;
+
+  // Obstacles per category, overall and per zone
+  const categorised = [
+    ...buildings.map(feature => ({ category: 'building', zone: feature.properties.zone })),
+    ...trees.map(point => ({ category: 'tree', zone: point.zone })),
+    ...poles.map(point => ({ category: 'pole', zone: point.zone })),
+    ...other,
+  ];
+  const countByCategory = (entries: Array<{ category: string }>) => Object.fromEntries(
+    ['building', ...OBSTACLE_CATEGORIES].map(category => [
+      category,
+      entries.filter(entry => entry.category === category).length,
+    ])
+  );
+  // Obstacles merely in the queried box aren't the site's
+  const category_counts = countByCategory(categorised.filter(entry => entry.zone !== 'outside'));
+  const zone_counts = zoneOf
+    ? Object.fromEntries(
+      OBSTACLE_ZONES.map(zone => [zone, countByCategory(categorised.filter(entry => entry.zone === zone))])
+    )
+    : null;
+
+  const climate = await runStep('climate', onProgress, () => fetchClimate(lat, lon, request.system, cache), result => result);
+  timings.climate = climate.duration_ms;
+  const { weather, climate_years } = climate.result;
+
+  const postProcessing = await runStep('post-processing', onProgress, async () => {
+    // Step 4: Estimate direct-beam shading from the obstacles around the site
+    console.log('Step 4: Computing shading...');
+    const shadingObstacles = shadingInputs({ buildings, trees, poles, other });
+    const shading = computeShading({ lat, lon }, shadingObstacles, annualSunSamples(lat, lon));
+    const horizon = horizonProfile(obstacleSilhouettes({ lat, lon }, shadingObstacles));
+
+    console.log('Shading computed:', {
+      annualLossPercent: shading.annual_loss_percent.toFixed(2),
+      maxHorizonDeg: Math.max(...horizon.elevations),
+    });
+
+    // Step 5: Estimate PV energy yield from the monthly climate averages
+    console.log('Step 5: Estimating energy yield...');
+    const energy = estimateYield(lat, lon, weather, request.system, shading.annual_loss_percent);
+
+    console.log('Energy yield estimated:', { annualKwh: energy.annual_kwh.toFixed(0) });
+
+    // Step 6: Repeat the estimate for each historical year to get the spread
+    const variability = climateVariability(lat, lon, climate_years, request.system, shading.annual_loss_percent);
+
+    return { shading, horizon, energy, variability };
+  }, result => result);
+  timings['post-processing'] = postProcessing.duration_ms;
+  const { shading, horizon, energy, variability } = postProcessing.result;
+
+  console.log('Analysis complete');
+
+  return {
+    postcode: request.site.kind === 'postcode' ? request.site.postcode : null,
+    site: { kind: request.site.kind, label, radius_m, buffer_m: request.buffer_m },
+    location: { lat, lon },
+    geocoding: geocode.result.geocoding,
+    boundary,
+    // Every obstacle Overpass found; the map clusters them
+    obstacles: {
+      buildings: {
+        type: "FeatureCollection",
+        features: buildings,
+      },
+      trees,
+      poles,
+      other,
+    },
+    category_counts,
+    zone_counts,
+    weather,
+    weather_units: WEATHER_UNITS,
+    climate_years,
+    variability,
+    shading,
+    horizon,
+    energy,
+    meta: {
+      retrieved_at: new Date().toISOString(),
+      timings_ms: timings,
+      cache: {
+        store: cache.store,
+        hits: cache.lookups.filter(lookup => lookup.hit).length,
+        misses: cache.lookups.filter(lookup => !lookup.hit).length,
+        lookups: cache.lookups,
+      },
+    },
+  };
+};
+
+export type AnalysisResult = Awaited<ReturnType<typeof runAnalysis>>;
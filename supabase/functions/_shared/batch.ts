@@ -0,0 +1,115 @@
+// Many-site screening for the analyze-batch function: each postcode runs the
+// normal pipeline, one after another, and is reduced to one summary row.
+
+import { runAnalysis, type AnalysisResult } from "./analysis.ts";
+import { saveAnalysis } from "./analyses.ts";
+import { parseGeographicPostcode } from "./postcode.ts";
+import { SITE_BUFFER_LIMITS } from "./site.ts";
+import { DAYS_IN_MONTH } from "./solar.ts";
+import type { SystemParameters } from "./pv-yield.ts";
+
+// Edge functions have a wall-clock limit, so requests are capped. An uncached
+// site spends about half of Open-Meteo's per-minute budget on its climate
+// years, so five already wait a couple of minutes for the limiter. The batch
+// page sends one postcode per request and runs a few requests at once.
+export const MAX_BATCH_SIZE = 5;
+
+export interface BatchSummary {
+  analysis_id: string | null;
+  lat: number;
+  lon: number;
+  geocoder: string | null;
+  obstacle_counts: Record<string, number>; // the analysis's category_counts
+  shading_loss_percent: number;
+  annual_yield_kwh: number;
+  specific_yield_kwh_kwp: number;
+  mean_temperature_c: number;
+  annual_precipitation_mm: number;
+  annual_sunshine_hours: number;
+  annual_ghi_kwh_m2: number;
+  annual_poa_kwh_m2: number;
+}
+
+export type BatchRowEvent =
+  | { index: number; postcode: string; status: 'running' }
+  | { index: number; postcode: string; status: 'completed'; summary: BatchSummary }
+  | { index: number; postcode: string; status: 'failed'; error: string };
+
+const round = (value: number, decimals = 1) => Number(value.toFixed(decimals));
+
+// Annual figures from the monthly climate: temperature is the daily mean
+// weighted by month length, the rest are sums of the monthly totals
+const summariseAnalysis = (id: string | null, result: AnalysisResult): BatchSummary => {
+  const { weather } = result;
+  const daysInYear = DAYS_IN_MONTH.reduce((sum, days) => sum + days, 0);
+  const meanTemperature =
+    weather.reduce((sum, month, index) => sum + month.temperature_2m_mean * DAYS_IN_MONTH[index], 0) / daysInYear;
+  const total = (
+    field: 'precipitation_monthly_total' | 'sunshine_monthly_total' | 'shortwave_radiation_sum' | 'plane_of_array_sum'
+  ) => weather.reduce((sum, month) => sum + month[field], 0);
+
+  return {
+    analysis_id: id,
+    lat: round(result.location.lat, 6),
+    lon: round(result.location.lon, 6),
+    geocoder: result.geocoding?.provider ?? null,
+    obstacle_counts: result.category_counts,
+    shading_loss_percent: round(result.shading.annual_loss_percent, 2),
+    annual_yield_kwh: round(result.energy.annual_kwh, 0),
+    specific_yield_kwh_kwp: round(result.energy.specific_yield_kwh_kwp, 0),
+    mean_temperature_c: round(meanTemperature),
+    annual_precipitation_mm: round(total('precipitation_monthly_total'), 0),
+    annual_sunshine_hours: round(total('sunshine_monthly_total'), 0),
+    annual_ghi_kwh_m2: round(total('shortwave_radiation_sum'), 0),
+    annual_poa_kwh_m2: round(total('plane_of_array_sum'), 0),
+  };
+};
+
+// One postcode through the pipeline, saved to history and summarised
+const analyseRow = async (
+  input: string,
+  index: number,
+  system: SystemParameters,
+  onRow: (event: BatchRowEvent) => void
+): Promise<BatchRowEvent> => {
+  const parsed = parseGeographicPostcode(input);
+  if (parsed.valid === false) {
+    const failed = { index, postcode: input, status: 'failed' as const, error: parsed.message };
+    onRow(failed);
+    return failed;
+  }
+
+  const postcode = parsed.postcode;
+  onRow({ index, postcode, status: 'running' });
+
+  try {
+    const request = { site: { kind: 'postcode' as const, postcode }, system, buffer_m: SITE_BUFFER_LIMITS.default, zones: false };
+    const result = await runAnalysis(request);
+    const id = await saveAnalysis(request, result);
+    const completed = { index, postcode, status: 'completed' as const, summary: summariseAnalysis(id, result) };
+    onRow(completed);
+    return completed;
+  } catch (error) {
+    console.error('Batch row failed:', postcode, error);
+    const failed = {
+      index,
+      postcode,
+      status: 'failed' as const,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+    onRow(failed);
+    return failed;
+  }
+};
+
+// Analyses each postcode in turn and saves it to history. A failing row never
+// fails the batch; it is reported with its error instead.
+export const runBatch = async (
+  postcodes: string[],
+  system: SystemParameters,
+  onRow: (event: BatchRowEvent) => void = () => {}
+) => {
+  const rows: BatchRowEvent[] = [];
+  for (const [index, input] of postcodes.entries()) rows.push(await analyseRow(input, index, system, onRow));
+  return rows;
+};
@@ -0,0 +1,159 @@
+// Turns Overpass building elements into GeoJSON features with an estimated height.
+//
+// Height fallback, in order of preference:
+//   1. the `height` tag (metres; "12", "12 m" and "40'" are understood)
+//   2. `building:levels` × LEVEL_HEIGHT_M, plus PITCHED_ROOF_ALLOWANCE_M unless
+//      `roof:shape` is flat
+//   3. DEFAULT_BUILDING_LEVELS storeys, treated as in (2)
+
+import type { LatLon } from './geo.ts';
+
+// Typical floor-to-floor height of a UK dwelling
+export const LEVEL_HEIGHT_M = 3;
+
+// A two-storey house is by far the most common untagged building
+export const DEFAULT_BUILDING_LEVELS = 2;
+
+// Ridge height above the top storey for anything that isn't a flat roof
+export const PITCHED_ROOF_ALLOWANCE_M = 2;
+
+const FEET_TO_METRES = 0.3048;
+
+export interface OverpassElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: LatLon;
+  geometry?: LatLon[];
+  tags?: Record<string, string>;
+}
+
+// Tags worth showing alongside an obstacle: what it is, its size, and who
+// runs it. The rest (sources, notes, addresses) is left in OSM.
+export const RELEVANT_TAGS = [
+  'name',
+  'building',
+  'height',
+  'building:levels',
+  'roof:shape',
+  'natural',
+  'landuse',
+  'barrier',
+  'man_made',
+  'power',
+  'tower:type',
+  'generator:source',
+  'species',
+  'genus',
+  'leaf_type',
+  'leaf_cycle',
+  'operator',
+  'ref',
+  'material',
+  'start_date',
+];
+
+export const relevantTags = (tags: Record<string, string> = {}) =>
+  Object.fromEntries(RELEVANT_TAGS.filter(key => key in tags).map(key => [key, tags[key]]));
+
+// "node/123", also the path of the object on openstreetmap.org
+export const osmRef = (osmType: OverpassElement['type'], osmId: number) => `${osmType}/${osmId}`;
+
+export type HeightSource = 'height' | 'levels' | 'default';
+
+export interface BuildingProperties {
+  osm_id: number;
+  osm_type: OverpassElement['type'];
+  height_m: number;
+  height_source: HeightSource;
+  height: string | null;
+  'building:levels': string | null;
+  'roof:shape': string | null;
+  tags: Record<string, string>;
+  centroid: LatLon;
+}
+
+export interface BuildingFeature {
+  type: 'Feature';
+  geometry:
+    | { type: 'Polygon'; coordinates: number[][][] }
+    | { type: 'Point'; coordinates: number[] };
+  properties: BuildingProperties;
+}
+
+export const parseHeight = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const match = value.trim().match(/^([\d.]+)\s*(m|ft|')?$/i);
+  if (!match) return null;
+
+  const numeric = parseFloat(match[1]);
+  if (!Number.isFinite(numeric) || numeric <= 0) return null;
+  return match[2] && match[2].toLowerCase() !== 'm' ? numeric * FEET_TO_METRES : numeric;
+};
+
+export const estimateBuildingHeight = (tags: Record<string, string> = {}): { height_m: number; source: HeightSource } => {
+  const tagged = parseHeight(tags.height);
+  if (tagged !== null) return { height_m: tagged, source: 'height' };
+
+  const roofAllowance = tags['roof:shape'] === 'flat' ? 0 : PITCHED_ROOF_ALLOWANCE_M;
+  const levels = parseFloat(tags['building:levels'] ?? '');
+  if (Number.isFinite(levels) && levels > 0) {
+    return { height_m: levels * LEVEL_HEIGHT_M + roofAllowance, source: 'levels' };
+  }
+
+  return { height_m: DEFAULT_BUILDING_LEVELS * LEVEL_HEIGHT_M + roofAllowance, source: 'default' };
+};
+
+// Vertex average of the ring, ignoring the closing vertex
+const ringCentroid = (ring: LatLon[]): LatLon => {
+  const open = ring.length > 1 && ring[0].lat === ring[ring.length - 1].lat && ring[0].lon === ring[ring.length - 1].lon
+    ? ring.slice(0, -1)
+    : ring;
+  return {
+    lat: open.reduce((sum, point) => sum + point.lat, 0) / open.length,
+    lon: open.reduce((sum, point) => sum + point.lon, 0) / open.length,
+  };
+};
+
+// Returns null for elements without usable geometry (e.g. relations, which
+// Overpass does not expand with `out geom` for our query)
+export const toBuildingFeature = (element: OverpassElement): BuildingFeature | null => {
+  const { height_m, source } = estimateBuildingHeight(element.tags);
+  const tags = element.tags ?? {};
+
+  let geometry: BuildingFeature['geometry'];
+  let centroid: LatLon;
+
+  if (element.type === 'way' && element.geometry && element.geometry.length >= 3) {
+    geometry = { type: 'Polygon', coordinates: [element.geometry.map(point => [point.lon, point.lat])] };
+    centroid = ringCentroid(element.geometry);
+  } else if (element.lat !== undefined && element.lon !== undefined) {
+    geometry = { type: 'Point', coordinates: [element.lon, element.lat] };
+    centroid = { lat: element.lat, lon: element.lon };
+  } else {
+    return null;
+  }
+
+  return {
+    type: 'Feature',
+    geometry,
+    properties: {
+      osm_id: element.id,
+      osm_type: element.type,
+      height_m,
+      height_source: source,
+      height: tags.height ?? null,
+      'building:levels': tags['building:levels'] ?? null,
+      'roof:shape': tags['roof:shape'] ?? null,
+      tags: relevantTags(tags),
+      centroid,
+    },
+  };
+};
+
+// Footprint vertices as lat/lon, or null for point-only buildings
+export const footprintOf = (feature: Pick<BuildingFeature, 'geometry'>): LatLon[] | null =>
+  feature.geometry.type === 'Polygon'
+    ? feature.geometry.coordinates[0].map(([lon, lat]) => ({ lat, lon }))
+    : null;
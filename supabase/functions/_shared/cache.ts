@@ -0,0 +1,151 @@
+// Cache for upstream API responses (geocoders, Overpass, Open-Meteo).
+//
+// The store is chosen by the ANALYSIS_CACHE environment variable:
+//   supabase — the `upstream_cache` table (default when a service role key is set)
+//   memory   — a per-isolate Map, for local runs
+//   none     — no caching
+// Store failures are logged and treated as misses; a broken cache must never
+// fail an analysis.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getServiceClient } from "./supabase.ts";
+
+export type CacheSource = 'geocode' | 'overpass' | 'climate';
+
+export interface CacheStore {
+  name: string;
+  get(key: string): Promise<unknown | null>;
+  // `ttlSeconds` of null keeps the entry forever
+  set(key: string, source: CacheSource, value: unknown, ttlSeconds: number | null): Promise<void>;
+}
+
+export interface CacheLookup {
+  source: CacheSource;
+  key: string;
+  hit: boolean;
+}
+
+export const createMemoryCacheStore = (): CacheStore => {
+  const entries = new Map<string, { value: unknown; expiresAt: number | null }>();
+
+  return {
+    name: 'memory',
+
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+
+    async set(key, _source, value, ttlSeconds) {
+      entries.set(key, { value, expiresAt: ttlSeconds === null ? null : Date.now() + ttlSeconds * 1000 });
+    },
+  };
+};
+
+export const createSupabaseCacheStore = (client: SupabaseClient): CacheStore => {
+  return {
+    name: 'supabase',
+
+    async get(key) {
+      const { data, error } = await client
+        .from('upstream_cache')
+        .select('value, expires_at')
+        .eq('key', key)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+      if (data.expires_at && new Date(data.expires_at).getTime() <= Date.now()) return null;
+      return data.value;
+    },
+
+    async set(key, source, value, ttlSeconds) {
+      const { error } = await client.from('upstream_cache').upsert({
+        key,
+        source,
+        value,
+        expires_at: ttlSeconds === null ? null : new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+      });
+      if (error) throw error;
+    },
+  };
+};
+
+const createNoopCacheStore = (): CacheStore => ({
+  name: 'none',
+  get: async () => null,
+  set: async () => {},
+});
+
+let configuredStore: CacheStore | null = null;
+
+// One store per isolate, so the memory store survives between requests
+export const configuredCacheStore = (): CacheStore => {
+  if (configuredStore) return configuredStore;
+
+  const client = getServiceClient();
+  const mode = Deno.env.get('ANALYSIS_CACHE') ?? (client ? 'supabase' : 'memory');
+
+  if (mode === 'supabase') {
+    if (!client) throw new Error('ANALYSIS_CACHE=supabase needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    configuredStore = createSupabaseCacheStore(client);
+  } else if (mode === 'memory') {
+    configuredStore = createMemoryCacheStore();
+  } else if (mode === 'none') {
+    configuredStore = createNoopCacheStore();
+  } else {
+    throw new Error(`Unknown ANALYSIS_CACHE "${mode}"`);
+  }
+
+  return configuredStore;
+};
+
+export interface CacheSession {
+  store: string;
+  lookups: CacheLookup[];
+  // Returns the cached value for `key`, or runs `fetcher` and caches its
+  // result. Null results are never cached.
+  fetch<T>(source: CacheSource, key: string, ttlSeconds: number | null, fetcher: () => Promise<T>): Promise<T>;
+}
+
+// Tracks the lookups made while serving one request, for the response metadata
+export const createCacheSession = (store: CacheStore = configuredCacheStore()): CacheSession => {
+  const lookups: CacheLookup[] = [];
+
+  return {
+    store: store.name,
+    lookups,
+
+    async fetch<T>(source: CacheSource, key: string, ttlSeconds: number | null, fetcher: () => Promise<T>) {
+      let cachedValue: unknown = null;
+      try {
+        cachedValue = await store.get(key);
+      } catch (error) {
+        console.error('Cache read failed:', key, error);
+      }
+
+      if (cachedValue !== null) {
+        lookups.push({ source, key, hit: true });
+        return cachedValue as T;
+      }
+
+      const value = await fetcher();
+      lookups.push({ source, key, hit: false });
+
+      if (value !== null && value !== undefined) {
+        try {
+          await store.set(key, source, value, ttlSeconds);
+        } catch (error) {
+          console.error('Cache write failed:', key, error);
+        }
+      }
+
+      return value;
+    },
+  };
+};
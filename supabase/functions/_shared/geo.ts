@@ -0,0 +1,150 @@
+// Small-distance geodesy helpers. Everything the analysis compares lives within
+// a few hundred metres of the site, so an equirectangular projection is plenty.
+
+const EARTH_RADIUS_M = 6371008.8;
+const DEG = Math.PI / 180;
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+// Local east/north offset (metres) of `point` relative to `origin`
+export const toLocalMetres = (origin: LatLon, point: LatLon): { x: number; y: number } => ({
+  x: (point.lon - origin.lon) * DEG * EARTH_RADIUS_M * Math.cos(origin.lat * DEG),
+  y: (point.lat - origin.lat) * DEG * EARTH_RADIUS_M,
+});
+
+export const distanceMetres = (origin: LatLon, point: LatLon): number => {
+  const { x, y } = toLocalMetres(origin, point);
+  return Math.hypot(x, y);
+};
+
+// Initial bearing in degrees clockwise from true north
+export const bearingDegrees = (origin: LatLon, point: LatLon): number => {
+  const { x, y } = toLocalMetres(origin, point);
+  return ((Math.atan2(x, y) / DEG) + 360) % 360;
+};
+
+// Smallest absolute difference between two bearings (0-180)
+export const angularDifference = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+// [south, north, west, east], the order Nominatim uses for `boundingbox`
+export type BoundingBox = [number, number, number, number];
+
+export const boundingBoxAround = (centre: LatLon, halfSizeMetres: number): BoundingBox => {
+  const dLat = (halfSizeMetres / EARTH_RADIUS_M) / DEG;
+  const dLon = dLat / Math.cos(centre.lat * DEG);
+  return [centre.lat - dLat, centre.lat + dLat, centre.lon - dLon, centre.lon + dLon];
+};
+
+export const boundingBoxFeature = ([south, north, west, east]: BoundingBox) => ({
+  type: 'Feature',
+  geometry: {
+    type: 'Polygon',
+    coordinates: [[
+      [west, south],
+      [east, south],
+      [east, north],
+      [west, north],
+      [west, south]
+    ]]
+  }
+});
+
+// GeoJSON ring positions are [lon, lat]
+export type Position = [number, number];
+
+export const boundingBoxOfRing = (ring: Position[]): BoundingBox => {
+  const lats = ring.map(([, lat]) => lat);
+  const lons = ring.map(([lon]) => lon);
+  return [Math.min(...lats), Math.max(...lats), Math.min(...lons), Math.max(...lons)];
+};
+
+// Area-weighted centroid of a closed ring, falling back to the vertex mean for
+// degenerate (zero-area) rings
+export const ringCentroid = (ring: Position[]): LatLon => {
+  const origin = { lat: ring[0][1], lon: ring[0][0] };
+  const points = ring.map(([lon, lat]) => toLocalMetres(origin, { lat, lon }));
+
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    const cross = points[i].x * points[i + 1].y - points[i + 1].x * points[i].y;
+    area += cross;
+    cx += (points[i].x + points[i + 1].x) * cross;
+    cy += (points[i].y + points[i + 1].y) * cross;
+  }
+
+  if (Math.abs(area) < 1e-9) {
+    const vertices = ring.slice(0, -1);
+    return {
+      lat: vertices.reduce((sum, [, lat]) => sum + lat, 0) / vertices.length,
+      lon: vertices.reduce((sum, [lon]) => sum + lon, 0) / vertices.length,
+    };
+  }
+
+  const x = cx / (3 * area);
+  const y = cy / (3 * area);
+  return {
+    lat: origin.lat + (y / EARTH_RADIUS_M) / DEG,
+    lon: origin.lon + (x / (EARTH_RADIUS_M * Math.cos(origin.lat * DEG))) / DEG,
+  };
+};
+
+// Closed ring approximating a circle of `radiusMetres` around `centre`
+export const circleRing = (centre: LatLon, radiusMetres: number, segments = 48): Position[] => {
+  const dLat = (radiusMetres / EARTH_RADIUS_M) / DEG;
+  const dLon = dLat / Math.cos(centre.lat * DEG);
+  const ring: Position[] = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = (2 * Math.PI * i) / segments;
+    ring.push([centre.lon + dLon * Math.sin(angle), centre.lat + dLat * Math.cos(angle)]);
+  }
+  ring.push(ring[0]);
+  return ring;
+};
+
+// Grows the box by `metres` on every side
+export const expandBoundingBox = ([south, north, west, east]: BoundingBox, metres: number): BoundingBox => {
+  const dLat = (metres / EARTH_RADIUS_M) / DEG;
+  const dLon = dLat / Math.cos(((south + north) / 2) * DEG);
+  return [south - dLat, north + dLat, west - dLon, east + dLon];
+};
+
+// Even-odd ray casting, so a point inside a hole ring counts as outside
+export const pointInRings = (point: LatLon, rings: Position[][]): boolean => {
+  let inside = false;
+  rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > point.lat) !== (yj > point.lat) && point.lon < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  });
+  return inside;
+};
+
+// Shortest distance from `point` to any edge of the rings
+export const distanceToRingsMetres = (point: LatLon, rings: Position[][]): number => {
+  let best = Infinity;
+  rings.forEach(ring => {
+    const local = ring.map(([lon, lat]) => toLocalMetres(point, { lat, lon }));
+    for (let i = 0; i < local.length - 1; i++) {
+      const a = local[i];
+      const b = local[i + 1];
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared)) : 0;
+      best = Math.min(best, Math.hypot(a.x + t * dx, a.y + t * dy));
+    }
+  });
+  return best;
+};
@@ -0,0 +1,111 @@
+// Geocoder selection and fallback. Providers are tried in the order given by
+// the GEOCODER_PROVIDERS environment variable (comma-separated, default
+// "postcodes.io,nominatim"); the first one to return a match wins. A match
+// without an outline (postcodes.io never has one) can borrow one from another
+// provider with findOutline, for analyses that zone their obstacles.
+
+import { boundingBoxOfRing, type BoundingBox } from '../geo.ts';
+import { boundaryRings } from '../zones.ts';
+import { fixtureGeocoder } from './fixture.ts';
+import { nominatimGeocoder } from './nominatim.ts';
+import { postcodesIoGeocoder } from './postcodes-io.ts';
+import type { GeocodeResult, Geocoder } from './types.ts';
+
+export type { GeocodeResult, Geocoder } from './types.ts';
+
+const GEOCODERS: Record<string, Geocoder> = {
+  [postcodesIoGeocoder.name]: postcodesIoGeocoder,
+  [nominatimGeocoder.name]: nominatimGeocoder,
+  [fixtureGeocoder.name]: fixtureGeocoder,
+};
+
+const DEFAULT_PROVIDERS = 'postcodes.io,nominatim';
+
+export const configuredGeocoders = (config = Deno.env.get('GEOCODER_PROVIDERS') ?? DEFAULT_PROVIDERS): Geocoder[] => {
+  const geocoders = config
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => {
+      const geocoder = GEOCODERS[name];
+      if (!geocoder) throw new Error(`Unknown geocoder "${name}" in GEOCODER_PROVIDERS`);
+      return geocoder;
+    });
+
+  if (geocoders.length === 0) throw new Error('GEOCODER_PROVIDERS names no geocoders');
+  return geocoders;
+};
+
+export interface GeocodeAttempt {
+  provider: string;
+  outcome: 'matched' | 'no_match' | 'failed';
+  error?: string;
+}
+
+// The smallest box holding both
+const unionBoundingBox = (a: BoundingBox, b: BoundingBox): BoundingBox => [
+  Math.min(a[0], b[0]),
+  Math.max(a[1], b[1]),
+  Math.min(a[2], b[2]),
+  Math.max(a[3], b[3]),
+];
+
+// The first outline `geocoders` have for the postcode, or null. Lookups that
+// fail only cost the zones, so they are logged rather than thrown.
+export const findOutline = async (postcode: string, geocoders: Geocoder[]): Promise<unknown | null> => {
+  for (const geocoder of geocoders) {
+    try {
+      const outline = (await geocoder.geocode(postcode))?.outline;
+      if (boundaryRings(outline)) {
+        console.log(`Using the ${geocoder.name} outline for ${postcode}`);
+        return outline;
+      }
+    } catch (error) {
+      console.error(`Outline lookup with ${geocoder.name} failed:`, error);
+    }
+  }
+  return null;
+};
+
+// `result` with `outline` as its boundary and the query box grown to cover it
+export const withOutline = (result: GeocodeResult, outline: unknown): GeocodeResult => {
+  const rings = boundaryRings(outline);
+  if (!rings) return result;
+  return {
+    ...result,
+    boundary: outline,
+    outline,
+    boundingBox: unionBoundingBox(result.boundingBox, boundingBoxOfRing(rings.flat())),
+  };
+};
+
+// Resolves with null when no provider matched and at least one answered that
+// the postcode is unknown: that answer is authoritative even if another
+// provider then failed. Only when every provider failed is the last failure
+// rethrown, so a network outage isn't reported as an unknown postcode.
+export const geocodeWithFallback = async (
+  postcode: string,
+  geocoders: Geocoder[] = configuredGeocoders()
+): Promise<{ result: GeocodeResult | null; attempts: GeocodeAttempt[] }> => {
+  const attempts: GeocodeAttempt[] = [];
+  let lastError: unknown = null;
+
+  for (const geocoder of geocoders) {
+    try {
+      const result = await geocoder.geocode(postcode);
+      attempts.push({ provider: geocoder.name, outcome: result ? 'matched' : 'no_match' });
+      if (result) return { result, attempts };
+    } catch (error) {
+      console.error(`Geocoder ${geocoder.name} failed:`, error);
+      lastError = error;
+      attempts.push({
+        provider: geocoder.name,
+        outcome: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (lastError && !attempts.some(attempt => attempt.outcome === 'no_match')) throw lastError;
+  return { result: null, attempts };
+};
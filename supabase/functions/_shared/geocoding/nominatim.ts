@@ -0,0 +1,53 @@
+// Nominatim free-text search. Returns a polygon for some postcodes, but its
+// centroids are often approximate and the public instance rate-limits hard.
+
+import { boundingBoxFeature, type BoundingBox } from '../geo.ts';
+import { upstreamFetch } from '../rate-limit.ts';
+import { boundaryRings } from '../zones.ts';
+import type { Geocoder } from './types.ts';
+
+export const nominatimGeocoder: Geocoder = {
+  name: 'nominatim',
+
+  async geocode(postcode) {
+    const nominatimUrl = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(postcode)}, UK&polygon_geojson=1&addressdetails=1&limit=1`;
+    const nominatimResponse = await upstreamFetch('nominatim', nominatimUrl, {
+      headers: {
+        'User-Agent': 'SolarSiteAnalysis/1.0'
+      }
+    });
+
+    if (!nominatimResponse.ok) {
+      throw new Error(`Nominatim API error: ${nominatimResponse.status}`);
+    }
+
+    const nominatimData = await nominatimResponse.json();
+    if (!nominatimData || nominatimData.length === 0) return null;
+
+    const location = nominatimData[0];
+    const boundingBox = location.boundingbox.map(parseFloat) as BoundingBox;
+
+    // A postcode-typed hit whose postcode matches ours is as good as Nominatim gets
+    const matchedPostcode = location.address?.postcode?.toUpperCase().replace(/\s+/g, '');
+    const exact = location.type === 'postcode' && matchedPostcode === postcode.replace(/\s+/g, '');
+    // Only an exact hit's polygon is the postcode's outline
+    const outline = exact && boundaryRings(location.geojson) ? location.geojson : null;
+
+    return {
+      lat: parseFloat(location.lat),
+      lon: parseFloat(location.lon),
+      boundingBox,
+      boundary: location.geojson || boundingBoxFeature(boundingBox),
+      outline,
+      provider: this.name,
+      confidence: exact ? 0.8 : 0.4,
+      admin: {
+        country: location.address?.country ?? null,
+        region: location.address?.state ?? null,
+        admin_district: location.address?.city ?? location.address?.town ?? location.address?.county ?? null,
+        admin_ward: location.address?.suburb ?? null,
+        parliamentary_constituency: null,
+      },
+    };
+  },
+};
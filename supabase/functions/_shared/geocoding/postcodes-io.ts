@@ -0,0 +1,59 @@
+// postcodes.io serves the ONS Postcode Directory: exact centroids for full
+// postcodes and outcodes, plus administrative metadata, but no boundaries.
+
+import { boundingBoxAround, boundingBoxFeature } from '../geo.ts';
+import { parsePostcode } from '../postcode.ts';
+import { upstreamFetch } from '../rate-limit.ts';
+import type { Geocoder } from './types.ts';
+
+// Half-size of the square analysed around the centroid. A full postcode
+// covers ~15 addresses; an outward code is a whole district.
+const FULL_POSTCODE_HALF_SIZE_M = 150;
+const OUTWARD_CODE_HALF_SIZE_M = 1000;
+
+const BASE_URL = 'https://api.postcodes.io';
+
+export const postcodesIoGeocoder: Geocoder = {
+  name: 'postcodes.io',
+
+  async geocode(postcode) {
+    const parsed = parsePostcode(postcode);
+    if (!parsed.valid || !parsed.geographic) return null;
+
+    const isOutward = parsed.kind === 'outward';
+    const url = isOutward
+      ? `${BASE_URL}/outcodes/${encodeURIComponent(parsed.outward)}`
+      : `${BASE_URL}/postcodes/${encodeURIComponent(parsed.postcode)}`;
+
+    const response = await upstreamFetch('postcodes.io', url);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`postcodes.io API error: ${response.status}`);
+    }
+
+    const { result } = await response.json();
+    if (!result || result.latitude === null || result.longitude === null) return null;
+
+    const centre = { lat: result.latitude, lon: result.longitude };
+    const boundingBox = boundingBoxAround(centre, isOutward ? OUTWARD_CODE_HALF_SIZE_M : FULL_POSTCODE_HALF_SIZE_M);
+
+    // Outcode results list every district/ward they span; keep the first
+    const first = (value: unknown) => (Array.isArray(value) ? value[0] : value) ?? null;
+
+    return {
+      ...centre,
+      boundingBox,
+      boundary: boundingBoxFeature(boundingBox),
+      outline: null,
+      provider: this.name,
+      confidence: isOutward ? 0.6 : 1,
+      admin: {
+        country: first(result.country),
+        region: first(result.region),
+        admin_district: first(result.admin_district),
+        admin_ward: first(result.admin_ward),
+        parliamentary_constituency: first(result.parliamentary_constituency),
+      },
+    };
+  },
+};
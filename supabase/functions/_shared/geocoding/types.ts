@@ -0,0 +1,23 @@
+import type { BoundingBox } from '../geo.ts';
+
+export interface GeocodeResult {
+  lat: number;
+  lon: number;
+  boundingBox: BoundingBox;
+  boundary: unknown; // GeoJSON geometry or Feature
+  // The postcode's own polygon (GeoJSON), which obstacles are zoned against;
+  // null when the provider only knows its centre
+  outline: unknown | null;
+  provider: string;
+  // 0-1: 1 is an exact match on the full postcode, lower values mean the
+  // provider matched something coarser (a district, a fuzzy search hit)
+  confidence: number;
+  admin: Record<string, string | null>;
+}
+
+// Returns null when the provider has no match; throws when the provider itself
+// failed (network, rate limit), which triggers fallback to the next provider.
+export interface Geocoder {
+  name: string;
+  geocode(postcode: string): Promise<GeocodeResult | null>;
+}
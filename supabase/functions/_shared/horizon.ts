@@ -0,0 +1,39 @@
+// Horizon profile of the site: the highest obstruction elevation in each
+// azimuth bin, built from the same obstacle silhouettes the shading model uses
+// (so only obstacles within its range count). Bins are centred on multiples of
+// the bin width clockwise from north: a 1° profile has values for 0°, 1°, …
+// 359°, a 5° one for 0°, 5°, … 355°. Open sky is 0°.
+//
+// Shared with the web client (through the `@shared` alias), so it must stay
+// free of Deno- and browser-specific APIs.
+
+import { angularDifference } from './geo.ts';
+import type { Silhouette } from './shading.ts';
+
+export const HORIZON_BIN_DEG = 1;
+
+export interface HorizonProfile {
+  bin_deg: number;
+  // elevations[i] is the horizon height (degrees) at azimuth i × bin_deg
+  elevations: number[];
+}
+
+export const horizonProfile = (
+  silhouettes: Array<Pick<Silhouette, 'bearing' | 'halfWidth' | 'elevation'>>,
+  binDegrees = HORIZON_BIN_DEG
+): HorizonProfile => {
+  if (!(binDegrees > 0) || !Number.isInteger(360 / binDegrees)) {
+    throw new Error(`Horizon bin width must divide 360°, got ${binDegrees}`);
+  }
+
+  // A silhouette counts towards every bin its span overlaps
+  const elevations = Array.from({ length: 360 / binDegrees }, (_, index) =>
+    silhouettes.reduce(
+      (highest, { bearing, halfWidth, elevation }) =>
+        angularDifference(index * binDegrees, bearing) <= halfWidth + binDegrees / 2 ? Math.max(highest, elevation) : highest,
+      0
+    )
+  );
+
+  return { bin_deg: binDegrees, elevations: elevations.map(elevation => Math.round(elevation * 10) / 10) };
+};
@@ -0,0 +1,99 @@
+// Aggregates Open-Meteo hourly radiation into monthly irradiation totals and
+// transposes it onto a tilted plane with the isotropic sky model.
+
+import { DAYS_IN_MONTH, incidenceCosine, sunPosition, type PlaneOrientation } from './solar.ts';
+
+const DEG = Math.PI / 180;
+
+const GROUND_ALBEDO = 0.2;
+
+// Hourly block of the Open-Meteo archive response, requested with timezone=GMT.
+// Values are W/m² averaged over the hour preceding each timestamp.
+export interface HourlyRadiation {
+  time: string[];
+  shortwave_radiation: Array<number | null>;
+  direct_normal_irradiance: Array<number | null>;
+  diffuse_radiation: Array<number | null>;
+}
+
+// Mean monthly totals in kWh/m²
+export interface MonthlyIrradiation {
+  shortwave_radiation_sum: number;
+  direct_normal_irradiance_sum: number;
+  diffuse_radiation_sum: number;
+  plane_of_array_sum: number;
+  plane_of_array_beam_sum: number;
+}
+
+interface Totals {
+  ghi: number;
+  dni: number;
+  dhi: number;
+  poa: number;
+  beam: number;
+  hours: number;
+}
+
+const emptyYear = (): Totals[] => Array.from({ length: 12 }, () => ({ ghi: 0, dni: 0, dhi: 0, poa: 0, beam: 0, hours: 0 }));
+
+// Scales a month's sums to one whole calendar month, so partial months and
+// differing numbers of years average out (Wh → kWh)
+const toMonthlyIrradiation = (month: Totals, index: number): MonthlyIrradiation => {
+  const scale = month.hours > 0 ? (24 * DAYS_IN_MONTH[index]) / month.hours / 1000 : 0;
+  return {
+    shortwave_radiation_sum: month.ghi * scale,
+    direct_normal_irradiance_sum: month.dni * scale,
+    diffuse_radiation_sum: month.dhi * scale,
+    plane_of_array_sum: month.poa * scale,
+    plane_of_array_beam_sum: month.beam * scale,
+  };
+};
+
+// Monthly totals averaged over every year in `hourly`, plus the same totals
+// for each calendar year on its own (null for months with no data)
+export const aggregateIrradiance = (
+  hourly: HourlyRadiation | undefined,
+  lat: number,
+  lon: number,
+  plane: PlaneOrientation
+): { monthly: MonthlyIrradiation[]; years: Array<{ year: number; monthly: Array<MonthlyIrradiation | null> }> } => {
+  const byYear = new Map<number, Totals[]>();
+  const cosTilt = Math.cos(plane.tilt * DEG);
+
+  hourly?.time?.forEach((time, index) => {
+    const ghi = hourly.shortwave_radiation[index];
+    const dni = hourly.direct_normal_irradiance[index];
+    const dhi = hourly.diffuse_radiation[index];
+    if (ghi === null || dni === null || dhi === null) return;
+
+    // Evaluate the sun at the middle of the averaging interval
+    const midpoint = new Date(new Date(`${time}Z`).getTime() - 30 * 60000);
+    const beam = dni * incidenceCosine(sunPosition(midpoint, lat, lon), plane);
+
+    const year = midpoint.getUTCFullYear();
+    if (!byYear.has(year)) byYear.set(year, emptyYear());
+
+    const month = byYear.get(year)![midpoint.getUTCMonth()];
+    month.ghi += ghi;
+    month.dni += dni;
+    month.dhi += dhi;
+    month.beam += beam;
+    month.poa += beam + dhi * (1 + cosTilt) / 2 + ghi * GROUND_ALBEDO * (1 - cosTilt) / 2;
+    month.hours += 1;
+  });
+
+  const totals = emptyYear();
+  byYear.forEach(months => months.forEach((month, index) => {
+    (Object.keys(month) as Array<keyof Totals>).forEach(key => { totals[index][key] += month[key]; });
+  }));
+
+  return {
+    monthly: totals.map(toMonthlyIrradiation),
+    years: [...byYear.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([year, months]) => ({
+        year,
+        monthly: months.map((month, index) => month.hours > 0 ? toMonthlyIrradiation(month, index) : null),
+      })),
+  };
+};
@@ -0,0 +1,163 @@
+// Which OpenStreetMap features count as obstacles besides buildings, and what
+// to assume about them. Each category lists the element types and tag filters
+// that select it (every tag in a filter must match; `true` matches any value)
+// and the height and width used when OSM has no `height` tag. The Overpass
+// query and the classification of its results are both generated from this
+// table, so adding a category here is enough for the analysis to pick it up.
+//
+// Shared with the web client (through the `@shared` alias) for labels and
+// counts, so it must stay free of Deno- and browser-specific APIs.
+
+import { parseHeight, relevantTags, type OverpassElement } from './buildings.ts';
+import type { LatLon } from './geo.ts';
+
+export type ObstacleCategory =
+  | 'tree'
+  | 'tree_row'
+  | 'hedge'
+  | 'wood'
+  | 'pole'
+  | 'tower'
+  | 'mast'
+  | 'chimney'
+  | 'wind_turbine'
+  | 'wall';
+
+type ElementType = OverpassElement['type'];
+
+export interface ObstacleCategoryDefinition {
+  label: string;
+  elements: ElementType[];
+  filters: Array<Record<string, string | true>>;
+  height_m: number;
+  // Assumed width across the line of sight for point features; ways use their
+  // own geometry instead
+  width_m: number;
+  // Closed ways are areas (a wood, a tower's outline) rather than lines that
+  // happen to loop (a hedge round a garden)
+  area?: boolean;
+}
+
+export const OBSTACLE_TAXONOMY: Record<ObstacleCategory, ObstacleCategoryDefinition> = {
+  tree: { label: 'Trees', elements: ['node'], filters: [{ natural: 'tree' }], height_m: 10, width_m: 6 },
+  tree_row: { label: 'Tree rows', elements: ['way'], filters: [{ natural: 'tree_row' }], height_m: 10, width_m: 6 },
+  hedge: { label: 'Hedges', elements: ['way'], filters: [{ barrier: 'hedge' }], height_m: 2, width_m: 1 },
+  wood: {
+    label: 'Woods',
+    elements: ['way'],
+    filters: [{ natural: 'wood' }, { landuse: 'forest' }],
+    height_m: 15,
+    width_m: 20,
+    area: true,
+  },
+  pole: { label: 'Utility poles', elements: ['node'], filters: [{ power: 'pole' }], height_m: 9, width_m: 0.3 },
+  tower: {
+    label: 'Towers',
+    elements: ['node', 'way'],
+    filters: [{ man_made: 'tower' }, { power: 'tower' }],
+    height_m: 25,
+    width_m: 5,
+    area: true,
+  },
+  mast: { label: 'Masts', elements: ['node', 'way'], filters: [{ man_made: 'mast' }], height_m: 20, width_m: 1, area: true },
+  chimney: {
+    label: 'Chimneys',
+    elements: ['node', 'way'],
+    filters: [{ man_made: 'chimney' }],
+    height_m: 20,
+    width_m: 2,
+    area: true,
+  },
+  wind_turbine: {
+    label: 'Wind turbines',
+    elements: ['node'],
+    filters: [{ power: 'generator', 'generator:source': 'wind' }],
+    height_m: 80,
+    width_m: 4,
+  },
+  wall: { label: 'Walls', elements: ['way'], filters: [{ barrier: 'wall' }], height_m: 2, width_m: 0.3 },
+};
+
+export const OBSTACLE_CATEGORIES = Object.keys(OBSTACLE_TAXONOMY) as ObstacleCategory[];
+
+// An obstacle other than a building. Ways keep their line or (closed) area
+// geometry; `lat`/`lon` is the node, or the vertex average of a way.
+export interface ObstacleFeature extends LatLon {
+  category: ObstacleCategory;
+  osm_type: ElementType;
+  osm_id: number;
+  height_m: number;
+  height_source: 'height' | 'default';
+  tags: Record<string, string>;
+  geometry:
+    | { type: 'Point'; coordinates: number[] }
+    | { type: 'LineString'; coordinates: number[][] }
+    | { type: 'Polygon'; coordinates: number[][][] };
+}
+
+const filterSelector = (filter: Record<string, string | true>) =>
+  Object.entries(filter)
+    .map(([key, value]) => value === true ? `["${key}"]` : `["${key}"="${value}"]`)
+    .join('');
+
+// Overpass QL statements for every category within `bbox`
+// ("south,west,north,east")
+export const taxonomyQuery = (bbox: string, taxonomy = OBSTACLE_TAXONOMY) =>
+  Object.values(taxonomy)
+    .flatMap(({ elements, filters }) =>
+      elements.flatMap(element => filters.map(filter => `${element}${filterSelector(filter)}(${bbox});`))
+    )
+    .join('\n');
+
+const matches = (tags: Record<string, string>, filter: Record<string, string | true>) =>
+  Object.entries(filter).every(([key, value]) => value === true ? key in tags : tags[key] === value);
+
+// First category whose element types and filters match, in taxonomy order
+export const categoriseElement = (element: OverpassElement, taxonomy = OBSTACLE_TAXONOMY): ObstacleCategory | null => {
+  const tags = element.tags ?? {};
+  const match = (Object.entries(taxonomy) as Array<[ObstacleCategory, ObstacleCategoryDefinition]>).find(
+    ([, { elements, filters }]) => elements.includes(element.type) && filters.some(filter => matches(tags, filter))
+  );
+  return match ? match[0] : null;
+};
+
+// Returns null for elements without usable geometry
+export const toObstacleFeature = (
+  element: OverpassElement,
+  category: ObstacleCategory,
+  taxonomy = OBSTACLE_TAXONOMY
+): ObstacleFeature | null => {
+  const tagged = parseHeight(element.tags?.height);
+  const height = tagged !== null
+    ? { height_m: tagged, height_source: 'height' as const }
+    : { height_m: taxonomy[category].height_m, height_source: 'default' as const };
+  const base = { category, osm_type: element.type, osm_id: element.id, ...height, tags: relevantTags(element.tags) };
+
+  if (element.type === 'node' && element.lat !== undefined && element.lon !== undefined) {
+    return { ...base, lat: element.lat, lon: element.lon, geometry: { type: 'Point', coordinates: [element.lon, element.lat] } };
+  }
+
+  const vertices = element.geometry ?? [];
+  if (vertices.length < 2) return null;
+
+  const coordinates = vertices.map(point => [point.lon, point.lat]);
+  const [first, last] = [vertices[0], vertices[vertices.length - 1]];
+  const closed = vertices.length >= 4 && first.lat === last.lat && first.lon === last.lon;
+  const open = closed ? vertices.slice(0, -1) : vertices;
+  const area = closed && taxonomy[category].area;
+
+  return {
+    ...base,
+    lat: open.reduce((sum, point) => sum + point.lat, 0) / open.length,
+    lon: open.reduce((sum, point) => sum + point.lon, 0) / open.length,
+    geometry: area ? { type: 'Polygon', coordinates: [coordinates] } : { type: 'LineString', coordinates },
+  };
+};
+
+// Vertices the shading model uses for the feature's angular extent, or null
+// for points
+export const obstacleFootprint = (feature: Pick<ObstacleFeature, 'geometry'>): LatLon[] | null =>
+  feature.geometry.type === 'Point'
+    ? null
+    : (feature.geometry.type === 'Polygon' ? feature.geometry.coordinates[0] : feature.geometry.coordinates)
+      .map(([lon, lat]) => ({ lat, lon }));
@@ -0,0 +1,94 @@
+// UK postcode validation and normalisation, shared by the analyze function and
+// the web client (imported there through the `@shared` alias), so it must stay
+// free of Deno- and browser-specific APIs.
+//
+// Formats follow the BS 7666 rules published by ONS/Royal Mail:
+//   outward = area (1–2 letters) + district (digit, two digits, digit+letter or letter+digit+…)
+//   inward  = sector digit + two unit letters, never C, I, K, M, O or V
+// plus the non-standard codes that appear in the wild: GIR 0AA (the old
+// Girobank code), BFPO numbers and the British Overseas Territories' codes.
+
+export type PostcodeKind = 'full' | 'outward' | 'special' | 'bfpo' | 'overseas';
+
+export type PostcodeErrorReason = 'empty' | 'invalid_format' | 'non_geographic';
+
+export type PostcodeResult =
+  | {
+      valid: true;
+      postcode: string;       // normalised, e.g. "SW1A 0AA" or "SW1A"
+      kind: PostcodeKind;
+      outward: string;
+      inward: string | null;  // null for outward-only codes and BFPO numbers
+      geographic: boolean;    // false when there is no UK location to geocode
+    }
+  | { valid: false; reason: PostcodeErrorReason; message: string };
+
+const OUTWARD = '[A-PR-UWYZ](?:[0-9]{1,2}|[A-HK-Y][0-9](?:[0-9]|[ABEHMNPRV-Y])?|[0-9][A-HJKPS-UW])';
+const INWARD = '[0-9][ABD-HJLNP-UW-Z]{2}';
+
+const FULL_PATTERN = new RegExp(`^(${OUTWARD})(${INWARD})$`);
+const OUTWARD_PATTERN = new RegExp(`^${OUTWARD}$`);
+const BFPO_PATTERN = /^BFPO(\d{1,4})$/;
+
+// Territories that use a single UK-style code for the whole territory
+const OVERSEAS_POSTCODES = [
+  'ASCN 1ZZ', 'BBND 1ZZ', 'BIQQ 1ZZ', 'FIQQ 1ZZ', 'GX11 1AA',
+  'PCRN 1ZZ', 'SIQQ 1ZZ', 'STHL 1ZZ', 'TDCU 1ZZ', 'TKCA 1ZZ',
+];
+
+// Takes `unknown` because request bodies reach it unchecked: anything but a
+// string (or nothing) is an invalid postcode, not a crash
+export const parsePostcode = (input: unknown): PostcodeResult => {
+  if (input != null && typeof input !== 'string') {
+    return { valid: false, reason: 'invalid_format', message: 'Postcode must be a string' };
+  }
+  const text = typeof input === 'string' ? input : '';
+  const compact = text.toUpperCase().replace(/\s+/g, '');
+
+  if (!compact) {
+    return { valid: false, reason: 'empty', message: 'Postcode is required' };
+  }
+
+  if (compact === 'GIR0AA') {
+    return { valid: true, postcode: 'GIR 0AA', kind: 'special', outward: 'GIR', inward: '0AA', geographic: true };
+  }
+
+  const bfpo = compact.match(BFPO_PATTERN);
+  if (bfpo) {
+    return { valid: true, postcode: `BFPO ${bfpo[1]}`, kind: 'bfpo', outward: 'BFPO', inward: null, geographic: false };
+  }
+
+  const overseas = OVERSEAS_POSTCODES.find(code => code.replace(' ', '') === compact);
+  if (overseas) {
+    const [outward, inward] = overseas.split(' ');
+    return { valid: true, postcode: overseas, kind: 'overseas', outward, inward, geographic: false };
+  }
+
+  const full = compact.match(FULL_PATTERN);
+  if (full) {
+    return { valid: true, postcode: `${full[1]} ${full[2]}`, kind: 'full', outward: full[1], inward: full[2], geographic: true };
+  }
+
+  if (OUTWARD_PATTERN.test(compact)) {
+    return { valid: true, postcode: compact, kind: 'outward', outward: compact, inward: null, geographic: true };
+  }
+
+  return {
+    valid: false,
+    reason: 'invalid_format',
+    message: `"${text.trim()}" is not a valid UK postcode (expected e.g. "SW1A 0AA" or "SW1A")`,
+  };
+};
+
+// Like parsePostcode, but also rejects codes with no location to analyse
+export const parseGeographicPostcode = (input: unknown): PostcodeResult => {
+  const result = parsePostcode(input);
+  if (result.valid && !result.geographic) {
+    return {
+      valid: false,
+      reason: 'non_geographic',
+      message: `${result.postcode} is a ${result.kind === 'bfpo' ? 'BFPO number' : 'British Overseas Territory postcode'} and has no UK location to analyse`,
+    };
+  }
+  return result;
+};
@@ -0,0 +1,164 @@
+// Monthly PV energy estimate from climate averages. Plane-of-array irradiation
+// is taken from the measured radiation totals when the climate step supplies
+// them; otherwise global horizontal irradiation is derived from sunshine hours
+// via Ångström–Prescott, split into beam and diffuse with the Liu–Jordan
+// monthly correlation and transposed onto the array plane with the isotropic
+// sky model.
+
+import { DAYS_IN_MONTH, representativeDayGeometry, type DayGeometry } from './solar.ts';
+
+const DEG = Math.PI / 180;
+
+// Ångström–Prescott coefficients (FAO-56 defaults)
+const ANGSTROM_A = 0.25;
+const ANGSTROM_B = 0.5;
+
+const GROUND_ALBEDO = 0.2;
+
+// Cell temperature model (Duffie & Beckman) for a typical crystalline module
+const NOCT_C = 45;
+const TAU_ALPHA = 0.9;
+const POWER_TEMPERATURE_COEFFICIENT = -0.004; // per °C above STC
+
+export interface SystemParameters {
+  kwp: number;
+  tilt: number;
+  azimuth: number;
+  module_efficiency_percent: number;
+  system_losses_percent: number;
+}
+
+export const DEFAULT_SYSTEM_PARAMETERS: SystemParameters = {
+  kwp: 4,
+  tilt: 35,
+  azimuth: 180,
+  module_efficiency_percent: 20,
+  system_losses_percent: 14,
+};
+
+const PARAMETER_LIMITS: Record<keyof SystemParameters, [number, number]> = {
+  kwp: [0.1, 10000],
+  tilt: [0, 90],
+  azimuth: [0, 360],
+  module_efficiency_percent: [1, 50],
+  system_losses_percent: [0, 99],
+};
+
+export interface MonthlyClimate {
+  month: string;
+  temperature_2m_mean: number;
+  sunshine_duration: number; // mean daily hours
+  plane_of_array_sum?: number;      // kWh/m² per month
+  plane_of_array_beam_sum?: number; // kWh/m² per month
+}
+
+export interface MonthlyYield {
+  month: string;
+  irradiation_kwh_m2: number; // plane-of-array, whole month
+  temperature_factor: number;
+  energy_kwh: number;
+}
+
+export interface YieldEstimate {
+  parameters: SystemParameters;
+  array_area_m2: number;
+  monthly: MonthlyYield[];
+  annual_kwh: number;
+  specific_yield_kwh_kwp: number;
+}
+
+// Merges client-supplied overrides onto the defaults, rejecting anything
+// non-numeric or outside a physically sensible range.
+export const parseSystemParameters = (
+  input: unknown
+): { parameters: SystemParameters; error?: undefined } | { parameters?: undefined; error: string } => {
+  const parameters = { ...DEFAULT_SYSTEM_PARAMETERS };
+  if (input === undefined || input === null) return { parameters };
+  if (typeof input !== 'object') return { error: 'System parameters must be an object' };
+
+  for (const key of Object.keys(PARAMETER_LIMITS) as Array<keyof SystemParameters>) {
+    const value = (input as Record<string, unknown>)[key];
+    if (value === undefined || value === null || value === '') continue;
+
+    const numeric = Number(value);
+    const [min, max] = PARAMETER_LIMITS[key];
+    if (!Number.isFinite(numeric) || numeric < min || numeric > max) {
+      return { error: `${key} must be a number between ${min} and ${max}` };
+    }
+    parameters[key] = numeric;
+  }
+
+  return { parameters };
+};
+
+// Liu & Jordan (1960) monthly diffuse fraction from the clearness index
+const diffuseFraction = (clearness: number): number => {
+  const kd = 1.39 - 4.027 * clearness + 5.531 * clearness ** 2 - 3.108 * clearness ** 3;
+  return Math.min(Math.max(kd, 0), 1);
+};
+
+// Daily plane-of-array irradiation (kWh/m²) estimated from sunshine hours alone
+const sunshinePlaneIrradiation = (
+  entry: MonthlyClimate,
+  day: DayGeometry,
+  cosTilt: number,
+  beamAvailable: number
+): number => {
+  const extraterrestrial = day.extraterrestrial_wh_m2 / 1000;
+  const relativeSunshine = day.day_length_h > 0 ? Math.min(entry.sunshine_duration / day.day_length_h, 1) : 0;
+
+  const global = extraterrestrial * (ANGSTROM_A + ANGSTROM_B * relativeSunshine);
+  const diffuse = global * diffuseFraction(extraterrestrial > 0 ? global / extraterrestrial : 0);
+  const beam = global - diffuse;
+
+  return beam * day.beam_ratio * beamAvailable
+    + diffuse * (1 + cosTilt) / 2
+    + global * GROUND_ALBEDO * (1 - cosTilt) / 2;
+};
+
+// `beamShadingLossPercent` removes that share of the beam component only;
+// diffuse light is assumed to reach the array regardless.
+export const estimateYield = (
+  lat: number,
+  lon: number,
+  climate: MonthlyClimate[],
+  parameters: SystemParameters,
+  beamShadingLossPercent = 0
+): YieldEstimate => {
+  const plane = { tilt: parameters.tilt, azimuth: parameters.azimuth };
+  const efficiency = parameters.module_efficiency_percent / 100;
+  const performance = 1 - parameters.system_losses_percent / 100;
+  const beamAvailable = 1 - beamShadingLossPercent / 100;
+  const cosTilt = Math.cos(plane.tilt * DEG);
+
+  const monthly = climate.map((entry, month) => {
+    const day = representativeDayGeometry(lat, lon, month, plane);
+    const planeDaily = entry.plane_of_array_sum !== undefined
+      ? (entry.plane_of_array_sum - (entry.plane_of_array_beam_sum ?? 0) * (1 - beamAvailable)) / DAYS_IN_MONTH[month]
+      : sunshinePlaneIrradiation(entry, day, cosTilt, beamAvailable);
+
+    // Mean daytime irradiance drives the cell temperature
+    const meanIrradiance = day.day_length_h > 0 ? (planeDaily * 1000) / day.day_length_h : 0;
+    const cellTemperature = entry.temperature_2m_mean
+      + ((NOCT_C - 20) / 800) * meanIrradiance * (1 - efficiency / TAU_ALPHA);
+    const temperatureFactor = 1 + POWER_TEMPERATURE_COEFFICIENT * (cellTemperature - 25);
+
+    const irradiation = planeDaily * DAYS_IN_MONTH[month];
+    return {
+      month: entry.month,
+      irradiation_kwh_m2: irradiation,
+      temperature_factor: temperatureFactor,
+      energy_kwh: parameters.kwp * irradiation * temperatureFactor * performance,
+    };
+  });
+
+  const annual = monthly.reduce((total, entry) => total + entry.energy_kwh, 0);
+
+  return {
+    parameters,
+    array_area_m2: parameters.kwp / efficiency,
+    monthly,
+    annual_kwh: annual,
+    specific_yield_kwh_kwp: annual / parameters.kwp,
+  };
+};
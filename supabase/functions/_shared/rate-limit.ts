@@ -0,0 +1,111 @@
+// Request pacing for the upstream APIs, shared by every analysis running in
+// this isolate, so a batch of sites can't exceed the providers' fair-use
+// policies. 429 and 503 answers are retried after the advertised Retry-After
+// (or an exponential backoff when there is none).
+
+export type Upstream = 'postcodes.io' | 'nominatim' | 'overpass' | 'open-meteo';
+
+interface UpstreamLimit {
+  concurrency: number;     // requests in flight at once
+  minIntervalMs: number;   // gap between request starts
+  callsPerMinute?: number; // weighted calls started in any 60 s window
+}
+
+// Nominatim allows one request per second; the public Overpass instance gives
+// each IP two query slots; Open-Meteo's free tier allows 600 calls a minute,
+// but counts a long or wide request as several (see openMeteoCallWeight)
+const UPSTREAM_LIMITS: Record<Upstream, UpstreamLimit> = {
+  'postcodes.io': { concurrency: 4, minIntervalMs: 0 },
+  nominatim: { concurrency: 1, minIntervalMs: 1000 },
+  overpass: { concurrency: 2, minIntervalMs: 0 },
+  'open-meteo': { concurrency: 4, minIntervalMs: 100, callsPerMinute: 600 },
+};
+
+const MINUTE_MS = 60 * 1000;
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRYABLE_STATUSES = [429, 503];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Open-Meteo's weight for one request: a call covers up to 10 variables and
+// 14 days for one location, and anything bigger counts fractionally more, so a
+// year of three hourly variables is about 26 calls
+export const openMeteoCallWeight = (days: number, variables: number) =>
+  Math.max(1, variables / 10) * Math.max(1, days / 14);
+
+const createLimiter = ({ concurrency, minIntervalMs, callsPerMinute = Infinity }: UpstreamLimit) => {
+  let active = 0;
+  let nextStart = 0;
+  const waiting: Array<() => void> = [];
+  // Weighted calls started in the last minute, oldest first
+  const recent: Array<{ startedAt: number; weight: number }> = [];
+
+  // Waits until `weight` more calls fit in the last minute's budget. A call
+  // heavier than the whole budget goes alone once the window is empty.
+  const awaitBudget = async (weight: number) => {
+    for (;;) {
+      const now = Date.now();
+      while (recent.length > 0 && recent[0].startedAt <= now - MINUTE_MS) recent.shift();
+      const used = recent.reduce((sum, call) => sum + call.weight, 0);
+      if (recent.length === 0 || used + weight <= callsPerMinute) return;
+      await sleep(recent[0].startedAt + MINUTE_MS - now);
+    }
+  };
+
+  // A finished task hands its slot straight to the next waiter
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  return async <T>(task: () => Promise<T>, weight: number): Promise<T> => {
+    if (active < concurrency) active++;
+    else await new Promise<void>(resolve => waiting.push(resolve));
+
+    try {
+      await awaitBudget(weight);
+      const now = Date.now();
+      const start = Math.max(now, nextStart);
+      nextStart = start + minIntervalMs;
+      recent.push({ startedAt: start, weight });
+      if (start > now) await sleep(start - now);
+      return await task();
+    } finally {
+      release();
+    }
+  };
+};
+
+const limiters = Object.fromEntries(
+  Object.entries(UPSTREAM_LIMITS).map(([upstream, limit]) => [upstream, createLimiter(limit)])
+) as Record<Upstream, ReturnType<typeof createLimiter>>;
+
+const retryDelayMs = (response: Response, attempt: number) => {
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(retryAfter) && retryAfter > 0
+    ? retryAfter * 1000
+    : RETRY_BASE_DELAY_MS * 2 ** attempt;
+};
+
+// `fetch` through the upstream's limiter, counting as `weight` calls against
+// its per-minute budget (retries included). Returns the last response once the
+// retries run out, so callers report the status as they do today.
+export const upstreamFetch = async (
+  upstream: Upstream,
+  url: string,
+  init?: RequestInit,
+  weight = 1
+): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    const response = await limiters[upstream](() => fetch(url, init), weight);
+    if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= MAX_RETRIES) return response;
+
+    const delay = retryDelayMs(response, attempt);
+    console.log(`${upstream} answered ${response.status}, retrying in ${delay}ms`);
+    await response.body?.cancel();
+    await sleep(delay);
+  }
+};
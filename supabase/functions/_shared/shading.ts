@@ -0,0 +1,210 @@
+// Direct-beam shading estimate for the site point. Each obstacle is modelled as
+// a box seen from the site: it blocks the sun when the sun's azimuth falls inside
+// the obstacle's angular width and the sun is lower than the obstacle's top.
+// Buildings with a footprint, and line or area features such as hedges and
+// woods, use their angular extent and nearest edge instead of the assumed
+// width and centroid distance.
+
+import {
+  angularDifference,
+  bearingDegrees,
+  distanceMetres,
+  distanceToRingsMetres,
+  type LatLon,
+  type Position,
+} from './geo.ts';
+import type { SunPosition, SunSample } from './solar.ts';
+import { footprintOf, osmRef, type BuildingFeature, type OverpassElement } from './buildings.ts';
+import { OBSTACLE_TAXONOMY, obstacleFootprint, type ObstacleCategory, type ObstacleFeature } from './obstacles.ts';
+
+export type ObstacleType = 'building' | ObstacleCategory;
+
+export interface ObstacleInput extends LatLon {
+  type: ObstacleType;
+  // OSM reference ("way/123"), passed through so results can be matched back
+  ref?: string;
+  height_m?: number;
+  footprint?: LatLon[] | null;
+}
+
+// Assumed dimensions when OSM gives us nothing better than a point
+export const OBSTACLE_PROFILES = {
+  building: { height_m: 8, width_m: 10 },
+  ...Object.fromEntries(
+    Object.entries(OBSTACLE_TAXONOMY).map(([category, { height_m, width_m }]) => [category, { height_m, width_m }])
+  ),
+} as Record<ObstacleType, { height_m: number; width_m: number }>;
+
+// The obstacle lists of an analysis, reduced to what the shading model reads
+export interface ShadingSources {
+  buildings: Array<{
+    geometry: BuildingFeature['geometry'];
+    properties: Pick<BuildingFeature['properties'], 'centroid' | 'height_m' | 'osm_type' | 'osm_id'>;
+  }>;
+  trees: Array<LatLon & { osm_type: OverpassElement['type']; osm_id: number; height_m: number }>;
+  poles: Array<LatLon & { osm_type: OverpassElement['type']; osm_id: number; height_m: number }>;
+  other: Array<Pick<ObstacleFeature, 'lat' | 'lon' | 'category' | 'osm_type' | 'osm_id' | 'height_m' | 'geometry'>>;
+}
+
+const pointInput = (type: 'tree' | 'pole') => (point: ShadingSources['trees'][number]): ObstacleInput => ({
+  lat: point.lat,
+  lon: point.lon,
+  type,
+  ref: osmRef(point.osm_type, point.osm_id),
+  height_m: point.height_m,
+});
+
+export const shadingInputs = ({ buildings, trees, poles, other }: ShadingSources): ObstacleInput[] => [
+  ...buildings.map(feature => ({
+    ...feature.properties.centroid,
+    type: 'building' as const,
+    ref: osmRef(feature.properties.osm_type, feature.properties.osm_id),
+    height_m: feature.properties.height_m,
+    footprint: footprintOf(feature),
+  })),
+  ...trees.map(pointInput('tree')),
+  ...poles.map(pointInput('pole')),
+  ...other.map(feature => ({
+    lat: feature.lat,
+    lon: feature.lon,
+    type: feature.category,
+    ref: osmRef(feature.osm_type, feature.osm_id),
+    height_m: feature.height_m,
+    footprint: obstacleFootprint(feature),
+  })),
+];
+
+// Height of the notional panel above ground at the postcode centroid
+const RECEIVER_HEIGHT_M = 1.5;
+
+// Obstacles closer than this are assumed to be the site itself
+const MIN_OBSTACLE_DISTANCE_M = 5;
+
+// Beyond this range even a tall building subtends too little to matter
+const MAX_OBSTACLE_DISTANCE_M = 300;
+
+// Number of worst offenders returned to the client
+const MAX_RANKED_OBSTACLES = 20;
+
+export interface ObstacleShading extends LatLon {
+  type: ObstacleType;
+  ref: string | null;
+  height_m: number;
+  distance_m: number;
+  bearing: number;
+  obstruction_elevation: number;
+  loss_percent: number;
+}
+
+export interface ShadingResult {
+  annual_loss_percent: number;
+  sample_count: number;
+  obstacles: ObstacleShading[];
+  // Loss attributed to every obstacle that blocks any sun, by OSM reference
+  loss_by_ref: Record<string, number>;
+}
+
+// An obstacle as seen from the site: the span of azimuths it covers
+// (bearing ± halfWidth) up to the elevation of its top
+export interface Silhouette extends ObstacleInput {
+  distance: number;
+  bearing: number;
+  halfWidth: number;
+  elevation: number;
+}
+
+const toSilhouette = (site: LatLon, obstacle: ObstacleInput): Silhouette | null => {
+  const profile = OBSTACLE_PROFILES[obstacle.type];
+  const height = obstacle.height_m ?? profile.height_m;
+  const bearing = bearingDegrees(site, obstacle);
+
+  let distance = distanceMetres(site, obstacle);
+  let halfWidth = Math.atan2(profile.width_m / 2, distance) * 180 / Math.PI;
+
+  if (obstacle.footprint && obstacle.footprint.length > 0) {
+    // Nearest point on any edge, so a long hedge or wall passing close by
+    // isn't placed at its nearest (possibly distant) vertex
+    distance = obstacle.footprint.length > 1
+      ? distanceToRingsMetres(site, [obstacle.footprint.map(({ lat, lon }): Position => [lon, lat])])
+      : distanceMetres(site, obstacle.footprint[0]);
+    halfWidth = Math.max(...obstacle.footprint.map(vertex => angularDifference(bearingDegrees(site, vertex), bearing)));
+  }
+
+  if (distance < MIN_OBSTACLE_DISTANCE_M || distance > MAX_OBSTACLE_DISTANCE_M) return null;
+
+  const elevation = Math.atan2(height - RECEIVER_HEIGHT_M, distance) * 180 / Math.PI;
+  if (elevation <= 0) return null;
+
+  return {
+    ...obstacle,
+    distance,
+    bearing,
+    halfWidth,
+    elevation,
+  };
+};
+
+// Silhouettes of the obstacles that can shade the site at all: too close,
+// too far or below the receiver ones are dropped
+export const obstacleSilhouettes = (site: LatLon, obstacles: ObstacleInput[]): Silhouette[] =>
+  obstacles
+    .map(obstacle => toSilhouette(site, obstacle))
+    .filter((silhouette): silhouette is Silhouette => silhouette !== null);
+
+// The highest silhouette in front of the sun, or null when it shines through
+export const blockingSilhouette = <T extends Silhouette>(sun: SunPosition, silhouettes: T[]): T | null => {
+  let blocker: T | null = null;
+  for (const silhouette of silhouettes) {
+    if (sun.elevation >= silhouette.elevation) continue;
+    if (angularDifference(sun.azimuth, silhouette.bearing) > silhouette.halfWidth) continue;
+    if (!blocker || silhouette.elevation > blocker.elevation) blocker = silhouette;
+  }
+  return blocker;
+};
+
+// When several obstacles cover the same sun position the loss is attributed to
+// the one with the highest obstruction angle, so per-obstacle losses sum to the
+// annual total.
+export const computeShading = (site: LatLon, obstacles: ObstacleInput[], samples: SunSample[]): ShadingResult => {
+  const silhouettes = obstacleSilhouettes(site, obstacles).map(silhouette => ({ ...silhouette, blocked: 0 }));
+
+  let totalWeight = 0;
+  let blockedWeight = 0;
+
+  samples.forEach(sample => {
+    totalWeight += sample.weight;
+
+    const blocker = blockingSilhouette(sample, silhouettes);
+    if (blocker) {
+      blocker.blocked += sample.weight;
+      blockedWeight += sample.weight;
+    }
+  });
+
+  const toPercent = (weight: number) => totalWeight > 0 ? (weight / totalWeight) * 100 : 0;
+  const blocking = silhouettes.filter(silhouette => silhouette.blocked > 0);
+
+  return {
+    annual_loss_percent: toPercent(blockedWeight),
+    sample_count: samples.length,
+    obstacles: [...blocking]
+      .sort((a, b) => b.blocked - a.blocked)
+      .slice(0, MAX_RANKED_OBSTACLES)
+      .map(silhouette => ({
+        type: silhouette.type,
+        ref: silhouette.ref ?? null,
+        height_m: silhouette.height_m ?? OBSTACLE_PROFILES[silhouette.type].height_m,
+        lat: silhouette.lat,
+        lon: silhouette.lon,
+        distance_m: silhouette.distance,
+        bearing: silhouette.bearing,
+        obstruction_elevation: silhouette.elevation,
+        loss_percent: toPercent(silhouette.blocked),
+      })),
+    loss_by_ref: Object.fromEntries(
+      blocking
+        .filter(silhouette => silhouette.ref)
+        .map(silhouette => [silhouette.ref, toPercent(silhouette.blocked)])
+    ),
+  };
+};
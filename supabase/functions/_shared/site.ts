@@ -0,0 +1,127 @@
+// What an analysis runs against: a UK postcode, an explicit point with a
+// radius, or a drawn GeoJSON polygon. Shared with the web client (through the
+// `@shared` alias) so the map drawing tools apply the same limits as the
+// function, so it must stay free of Deno- and browser-specific APIs.
+
+import { parseGeographicPostcode, type PostcodeErrorReason } from "./postcode.ts";
+import { boundingBoxOfRing, distanceMetres, type Position } from "./geo.ts";
+
+export type SiteKind = 'postcode' | 'point' | 'polygon';
+
+export type SiteInput =
+  | { kind: 'postcode'; postcode: string }
+  | { kind: 'point'; lat: number; lon: number; radius_m: number }
+  | { kind: 'polygon'; polygon: { type: 'Polygon'; coordinates: Position[][] } };
+
+export type SiteErrorReason = PostcodeErrorReason | 'ambiguous_site' | 'invalid_point' | 'invalid_polygon';
+
+// Radius around an explicit point, in metres
+export const SITE_RADIUS_LIMITS = { min: 5, max: 1000, default: 50 };
+
+// Drawn areas must fit in a box this wide, to keep Overpass queries small
+export const MAX_POLYGON_SPAN_M = 2000;
+
+export const MAX_POLYGON_VERTICES = 200;
+
+// Distance beyond the site boundary within which obstacles are still counted
+// as neighbours, in metres
+export const SITE_BUFFER_LIMITS = { min: 0, max: 200, default: 0 };
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPosition = (value: unknown): value is Position =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  isFiniteNumber(value[0]) && Math.abs(value[0]) <= 180 &&
+  isFiniteNumber(value[1]) && Math.abs(value[1]) <= 90;
+
+const parsePoint = (lat: unknown, lon: unknown, radius: unknown): SiteInput | string => {
+  const latitude = Number(lat);
+  const longitude = Number(lon);
+  if (!Number.isFinite(latitude) || Math.abs(latitude) > 90 || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+    return 'lat and lon must be numbers within -90..90 and -180..180';
+  }
+
+  const { min, max } = SITE_RADIUS_LIMITS;
+  const radius_m = radius === undefined || radius === null || radius === '' ? SITE_RADIUS_LIMITS.default : Number(radius);
+  if (!Number.isFinite(radius_m) || radius_m < min || radius_m > max) {
+    return `radius_m must be a number between ${min} and ${max}`;
+  }
+
+  return { kind: 'point', lat: latitude, lon: longitude, radius_m };
+};
+
+// Accepts a Polygon geometry or a Feature wrapping one. Only the outer ring is
+// analysed; holes are dropped.
+const parsePolygon = (input: unknown): SiteInput | string => {
+  const geometry = (input as { type?: string; geometry?: unknown })?.type === 'Feature'
+    ? (input as { geometry?: unknown }).geometry
+    : input;
+  const { type, coordinates } = (geometry ?? {}) as { type?: unknown; coordinates?: unknown };
+
+  if (type !== 'Polygon' || !Array.isArray(coordinates) || !Array.isArray(coordinates[0])) {
+    return 'polygon must be a GeoJSON Polygon or a Feature with Polygon geometry';
+  }
+
+  const outer = coordinates[0] as unknown[];
+  if (!outer.every(isPosition)) {
+    return 'polygon coordinates must be [lon, lat] pairs';
+  }
+
+  const ring = (outer as Position[]).map(([lon, lat]): Position => [lon, lat]);
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first && (first[0] !== last[0] || first[1] !== last[1])) ring.push(first);
+
+  if (ring.length < 4) return 'polygon needs at least three vertices';
+  if (ring.length - 1 > MAX_POLYGON_VERTICES) return `polygon may have at most ${MAX_POLYGON_VERTICES} vertices`;
+
+  const [south, north, west, east] = boundingBoxOfRing(ring);
+  const span = distanceMetres({ lat: south, lon: west }, { lat: north, lon: east });
+  if (span > MAX_POLYGON_SPAN_M) {
+    return `polygon is ${Math.round(span)} m across; draw an area under ${MAX_POLYGON_SPAN_M} m`;
+  }
+
+  return { kind: 'polygon', polygon: { type: 'Polygon', coordinates: [ring] } };
+};
+
+// Reads the site from a request body holding exactly one of `postcode`,
+// `lat`/`lon` (with optional `radius_m`) or `polygon`
+export const parseSite = (
+  body: Record<string, unknown>
+): { site: SiteInput; error?: undefined; reason?: undefined } | { site?: undefined; error: string; reason: SiteErrorReason } => {
+  const hasPostcode = typeof body.postcode === 'string' && body.postcode.trim() !== '';
+  const hasPoint = body.lat !== undefined || body.lon !== undefined;
+  const hasPolygon = body.polygon !== undefined && body.polygon !== null;
+
+  if ([hasPostcode, hasPoint, hasPolygon].filter(Boolean).length > 1) {
+    return { error: 'Send only one of postcode, lat/lon or polygon', reason: 'ambiguous_site' };
+  }
+
+  if (hasPoint) {
+    const point = parsePoint(body.lat, body.lon, body.radius_m);
+    return typeof point === 'string' ? { error: point, reason: 'invalid_point' } : { site: point };
+  }
+
+  if (hasPolygon) {
+    const polygon = parsePolygon(body.polygon);
+    return typeof polygon === 'string' ? { error: polygon, reason: 'invalid_polygon' } : { site: polygon };
+  }
+
+  const parsedPostcode = parseGeographicPostcode(body.postcode as string);
+  if (parsedPostcode.valid === false) {
+    return { error: parsedPostcode.message, reason: parsedPostcode.reason };
+  }
+  return { site: { kind: 'postcode', postcode: parsedPostcode.postcode } };
+};
+
+// Reads the optional `buffer_m` of a request body
+export const parseBuffer = (value: unknown): { buffer_m: number; error?: undefined } | { buffer_m?: undefined; error: string } => {
+  if (value === undefined || value === null || value === '') return { buffer_m: SITE_BUFFER_LIMITS.default };
+
+  const { min, max } = SITE_BUFFER_LIMITS;
+  const buffer_m = Number(value);
+  if (!Number.isFinite(buffer_m) || buffer_m < min || buffer_m > max) {
+    return { error: `buffer_m must be a number between ${min} and ${max}` };
+  }
+  return { buffer_m };
+};
@@ -0,0 +1,141 @@
+// Solar geometry helpers shared by the edge functions.
+// Positions use the low-precision NOAA/Astronomical Almanac formulae, which are
+// accurate to ~0.01° for dates within a few decades of J2000 — far better than
+// the obstacle data they are compared against.
+
+const DEG = Math.PI / 180;
+
+// Solar constant (W/m²) used by the clear-sky weighting below
+const SOLAR_CONSTANT = 1361;
+
+// Sun positions barely drift between years, so sample a fixed non-leap year
+const REFERENCE_YEAR = 2023;
+
+// Representative day of each month (Klein, 1977): the day whose declination
+// is closest to the monthly mean
+const REPRESENTATIVE_DAYS = [17, 16, 16, 15, 15, 11, 17, 16, 15, 15, 14, 10];
+
+export const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Integration step for the daily geometry below
+const DAY_STEP_MINUTES = 10;
+
+export interface SunPosition {
+  azimuth: number;   // degrees clockwise from true north
+  elevation: number; // degrees above the horizon
+}
+
+export interface SunSample extends SunPosition {
+  month: number; // 0-11
+  hour: number;  // UTC hour
+  weight: number; // clear-sky direct irradiation represented by this sample (Wh/m²)
+}
+
+export const normaliseDegrees = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+export const sunPosition = (date: Date, lat: number, lon: number): SunPosition => {
+  const n = date.getTime() / 86400000 + 2440587.5 - 2451545.0; // days since J2000
+
+  const meanLongitude = normaliseDegrees(280.460 + 0.9856474 * n);
+  const meanAnomaly = normaliseDegrees(357.528 + 0.9856003 * n) * DEG;
+  const eclipticLongitude = (meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.020 * Math.sin(2 * meanAnomaly)) * DEG;
+  const obliquity = (23.439 - 0.0000004 * n) * DEG;
+
+  const rightAscension = Math.atan2(Math.cos(obliquity) * Math.sin(eclipticLongitude), Math.cos(eclipticLongitude));
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLongitude));
+
+  const siderealHours = (18.697374558 + 24.06570982441908 * n) % 24;
+  const hourAngle = (siderealHours * 15 + lon) * DEG - rightAscension;
+
+  const latRad = lat * DEG;
+  const elevation = Math.asin(
+    Math.sin(latRad) * Math.sin(declination) + Math.cos(latRad) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+  const azimuth = Math.atan2(
+    -Math.sin(hourAngle),
+    Math.cos(latRad) * Math.tan(declination) - Math.sin(latRad) * Math.cos(hourAngle)
+  );
+
+  return {
+    azimuth: normaliseDegrees(azimuth / DEG),
+    elevation: elevation / DEG,
+  };
+};
+
+// Clear-sky direct normal irradiance from the Meinel air-mass model (W/m²)
+export const clearSkyDni = (elevation: number): number => {
+  if (elevation <= 0) return 0;
+  const airMass = 1 / Math.sin(elevation * DEG);
+  return SOLAR_CONSTANT * Math.pow(0.7, Math.pow(airMass, 0.678));
+};
+
+// Hourly sun positions on the representative day of each month. Only daylight
+// samples are returned; each is weighted by the clear-sky direct irradiation
+// on a horizontal surface for that hour across the whole month.
+export const annualSunSamples = (lat: number, lon: number): SunSample[] => {
+  const samples: SunSample[] = [];
+
+  REPRESENTATIVE_DAYS.forEach((day, month) => {
+    for (let hour = 0; hour < 24; hour++) {
+      const position = sunPosition(new Date(Date.UTC(REFERENCE_YEAR, month, day, hour, 30)), lat, lon);
+      if (position.elevation <= 0) continue;
+
+      const horizontal = clearSkyDni(position.elevation) * Math.sin(position.elevation * DEG);
+      samples.push({ ...position, month, hour, weight: horizontal * DAYS_IN_MONTH[month] });
+    }
+  });
+
+  return samples;
+};
+
+export interface PlaneOrientation {
+  tilt: number;    // degrees from horizontal
+  azimuth: number; // degrees clockwise from north that the plane faces
+}
+
+export interface DayGeometry {
+  extraterrestrial_wh_m2: number; // daily irradiation on a horizontal plane above the atmosphere
+  day_length_h: number;
+  beam_ratio: number;             // tilted / horizontal beam irradiation (Rb)
+}
+
+// Angle-of-incidence cosine of the sun on a plane, clipped at zero for the back face
+export const incidenceCosine = (sun: SunPosition, plane: PlaneOrientation): number => {
+  const cos = Math.sin(sun.elevation * DEG) * Math.cos(plane.tilt * DEG)
+    + Math.cos(sun.elevation * DEG) * Math.sin(plane.tilt * DEG) * Math.cos((sun.azimuth - plane.azimuth) * DEG);
+  return Math.max(cos, 0);
+};
+
+// Integrates the representative day of a month to give the inputs needed by
+// monthly-mean irradiance models (Ångström–Prescott, Liu–Jordan).
+export const representativeDayGeometry = (
+  lat: number,
+  lon: number,
+  month: number,
+  plane: PlaneOrientation
+): DayGeometry => {
+  const start = Date.UTC(REFERENCE_YEAR, month, REPRESENTATIVE_DAYS[month]);
+  const dayOfYear = DAYS_IN_MONTH.slice(0, month).reduce((a, b) => a + b, 0) + REPRESENTATIVE_DAYS[month];
+  const eccentricity = 1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365);
+  const stepHours = DAY_STEP_MINUTES / 60;
+
+  let horizontal = 0;
+  let tilted = 0;
+  let daylight = 0;
+
+  for (let minute = 0; minute < 1440; minute += DAY_STEP_MINUTES) {
+    const sun = sunPosition(new Date(start + (minute + DAY_STEP_MINUTES / 2) * 60000), lat, lon);
+    if (sun.elevation <= 0) continue;
+
+    const normal = SOLAR_CONSTANT * eccentricity;
+    horizontal += normal * Math.sin(sun.elevation * DEG) * stepHours;
+    tilted += normal * incidenceCosine(sun, plane) * stepHours;
+    daylight += stepHours;
+  }
+
+  return {
+    extraterrestrial_wh_m2: horizontal,
+    day_length_h: daylight,
+    beam_ratio: horizontal > 0 ? tilted / horizontal : 0,
+  };
+};
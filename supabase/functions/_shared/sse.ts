@@ -0,0 +1,35 @@
+// Server-Sent Events responses for the functions that stream their progress
+
+import { corsHeaders } from "./cors.ts";
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+// Runs `produce` with a `send` callback and closes the stream when it settles.
+// `produce` is expected to report its own failures as events.
+export const eventStreamResponse = (produce: (send: SendEvent) => Promise<void>) => {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await produce(send);
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
+};
+
+export const wantsEventStream = (req: Request) => req.headers.get('Accept')?.includes('text/event-stream') ?? false;
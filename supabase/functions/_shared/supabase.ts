@@ -0,0 +1,17 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+let serviceClient: SupabaseClient | null | undefined;
+
+// Service-role client for writes from edge functions, or null when the
+// function runs without Supabase credentials (e.g. a plain `deno run`)
+export const getServiceClient = (): SupabaseClient | null => {
+  if (serviceClient !== undefined) return serviceClient;
+
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  serviceClient = url && serviceRoleKey
+    ? createClient(url, serviceRoleKey, { auth: { persistSession: false } })
+    : null;
+
+  return serviceClient;
+};
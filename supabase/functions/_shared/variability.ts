@@ -0,0 +1,105 @@
+// Year-to-year spread of the monthly climate and of the generation it implies.
+// P90 is the value exceeded in nine years out of ten, assuming the yearly
+// values are normally distributed (mean − 1.2816 σ); P50 is the mean.
+
+import { estimateYield, type SystemParameters } from './pv-yield.ts';
+
+const P90_Z = 1.2816;
+
+export interface Spread {
+  mean: number;
+  min: number;
+  max: number;
+  std: number;  // sample standard deviation, 0 with a single year
+  p90: number;
+  years: number;
+}
+
+type ClimateField =
+  | 'temperature_2m_mean'
+  | 'precipitation_sum'
+  | 'precipitation_monthly_total'
+  | 'sunshine_duration'
+  | 'sunshine_monthly_total'
+  | 'plane_of_array_sum';
+
+const CLIMATE_FIELDS: ClimateField[] = [
+  'temperature_2m_mean',
+  'precipitation_sum',
+  'precipitation_monthly_total',
+  'sunshine_duration',
+  'sunshine_monthly_total',
+  'plane_of_array_sum',
+];
+
+export interface ClimateYear {
+  year: number;
+  months: Array<{ month: string } & Record<ClimateField | 'plane_of_array_beam_sum', number | null>>;
+}
+
+export const spreadOf = (values: number[]): Spread | null => {
+  if (values.length === 0) return null;
+
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const std = values.length > 1
+    ? Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1))
+    : 0;
+
+  return {
+    mean,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    std,
+    p90: mean - P90_Z * std,
+    years: values.length,
+  };
+};
+
+const present = (values: Array<number | null>) => values.filter((value): value is number => value !== null);
+
+// Runs the yield model on each year's own months. Months the archive doesn't
+// cover are null, and only complete years get an annual total.
+export const climateVariability = (
+  lat: number,
+  lon: number,
+  years: ClimateYear[],
+  parameters: SystemParameters,
+  beamShadingLossPercent: number
+) => {
+  const yearly_energy = years.map(({ year, months }) => {
+    const covered = months.map(month => month.temperature_2m_mean !== null && month.plane_of_array_sum !== null);
+    const energy = estimateYield(
+      lat,
+      lon,
+      months.map(month => ({
+        month: month.month,
+        temperature_2m_mean: month.temperature_2m_mean ?? 0,
+        sunshine_duration: month.sunshine_duration ?? 0,
+        plane_of_array_sum: month.plane_of_array_sum ?? 0,
+        plane_of_array_beam_sum: month.plane_of_array_beam_sum ?? 0,
+      })),
+      parameters,
+      beamShadingLossPercent
+    );
+
+    return {
+      year,
+      monthly_kwh: energy.monthly.map((month, index) => covered[index] ? month.energy_kwh : null),
+      annual_kwh: covered.every(Boolean) ? energy.annual_kwh : null,
+    };
+  });
+
+  const monthly = (years[0]?.months ?? []).map(({ month }, index) => ({
+    month,
+    ...Object.fromEntries(
+      CLIMATE_FIELDS.map(field => [field, spreadOf(present(years.map(year => year.months[index][field])))])
+    ) as Record<ClimateField, Spread | null>,
+    energy_kwh: spreadOf(present(yearly_energy.map(year => year.monthly_kwh[index]))),
+  }));
+
+  return {
+    monthly,
+    yearly_energy,
+    annual_kwh: spreadOf(present(yearly_energy.map(year => year.annual_kwh))),
+  };
+};
@@ -0,0 +1,42 @@
+// Where each obstacle sits relative to the site outline. Overpass is queried
+// with a bounding box, so it also returns obstacles that are in the box but
+// not on the site; obstacles just outside still shade it, hence the buffer.
+//
+//   inside  — within the outline polygon
+//   buffer  — outside it, but no more than `buffer_m` from its edge
+//   outside — everything else in the queried box
+//
+// Buildings are classified by their footprint centroid. Sites without a real
+// outline (a postcode no provider has a polygon for) get no zones at all,
+// since classing against the query box would put every obstacle inside.
+
+import { distanceToRingsMetres, pointInRings, type LatLon, type Position } from './geo.ts';
+
+export type ObstacleZone = 'inside' | 'buffer' | 'outside';
+
+export const OBSTACLE_ZONES: ObstacleZone[] = ['inside', 'buffer', 'outside'];
+
+type Geometry = { type?: string; coordinates?: unknown };
+
+// Outer and hole rings of a Polygon or MultiPolygon boundary (bare or wrapped
+// in a Feature), or null for anything else
+export const boundaryRings = (boundary: unknown): Position[][] | null => {
+  const geometry = ((boundary as { type?: string })?.type === 'Feature'
+    ? (boundary as { geometry?: Geometry }).geometry
+    : boundary) as Geometry | undefined;
+
+  if (geometry?.type === 'Polygon') return geometry.coordinates as Position[][];
+  if (geometry?.type === 'MultiPolygon') return (geometry.coordinates as Position[][][]).flat();
+  return null;
+};
+
+// Null when `outline` isn't a polygon, in which case obstacles go unzoned
+export const zoneClassifier = (outline: unknown, bufferMetres: number) => {
+  const rings = boundaryRings(outline);
+  if (!rings) return null;
+
+  return (point: LatLon): ObstacleZone => {
+    if (pointInRings(point, rings)) return 'inside';
+    return bufferMetres > 0 && distanceToRingsMetres(point, rings) <= bufferMetres ? 'buffer' : 'outside';
+  };
+};
@@ -0,0 +1,74 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { parseSystemParameters } from "../_shared/pv-yield.ts";
+import { MAX_BATCH_SIZE, runBatch } from "../_shared/batch.ts";
+import { eventStreamResponse, wantsEventStream } from "../_shared/sse.ts";
+
+// Screens a list of postcodes with the analyze pipeline. Streaming clients get
+// a `row` event as each site starts, completes or fails, then one `done` event;
+// others get every row at once.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Malformed JSON, `null` or an array is a bad request, not a crash
+    const body = await req.json().catch(() => null);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return new Response(
+        JSON.stringify({ error: 'Request body must be a JSON object' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const { postcodes, system } = body;
+
+    if (!Array.isArray(postcodes) || postcodes.length === 0 || !postcodes.every(postcode => typeof postcode === 'string')) {
+      return new Response(
+        JSON.stringify({ error: 'postcodes must be a non-empty array of strings' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (postcodes.length > MAX_BATCH_SIZE) {
+      return new Response(
+        JSON.stringify({ error: `A batch may hold at most ${MAX_BATCH_SIZE} postcodes` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const systemParameters = parseSystemParameters(system);
+    if (systemParameters.error !== undefined) {
+      return new Response(
+        JSON.stringify({ error: systemParameters.error }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log('Analyzing batch of', postcodes.length, 'postcodes');
+
+    if (wantsEventStream(req)) {
+      return eventStreamResponse(async send => {
+        const rows = await runBatch(postcodes, systemParameters.parameters, row => send('row', row));
+        send('done', {
+          completed: rows.filter(row => row.status === 'completed').length,
+          failed: rows.filter(row => row.status === 'failed').length,
+        });
+      });
+    }
+
+    const rows = await runBatch(postcodes, systemParameters.parameters);
+
+    return new Response(
+      JSON.stringify({ rows }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in analyze-batch function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error occurred' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,15 @@
+-- Cache of upstream API responses (geocoders, Overpass, Open-Meteo) written by
+-- the analyze function with the service role key.
+create table public.upstream_cache (
+  key text primary key,
+  source text not null check (source in ('geocode', 'overpass', 'climate')),
+  value jsonb not null,
+  expires_at timestamptz,           -- null: never expires (archived climate years)
+  created_at timestamptz not null default now()
+);
+
+create index upstream_cache_expires_at_idx on public.upstream_cache (expires_at)
+  where expires_at is not null;
+
+-- Only the service role (which bypasses RLS) may read or write the cache
+alter table public.upstream_cache enable row level security;
@@ -0,0 +1,24 @@
+-- Completed analyses, written by the analyze function so past results can be
+-- listed and reopened without re-querying the upstream APIs.
+create table public.analyses (
+  id uuid primary key default gen_random_uuid(),
+  postcode text not null,
+  location jsonb not null,
+  boundary jsonb not null,
+  obstacles jsonb not null,
+  weather jsonb not null,
+  parameters jsonb not null,
+  results jsonb not null,           -- geocoding, shading, energy and run metadata
+  created_at timestamptz not null default now()
+);
+
+create index analyses_created_at_idx on public.analyses (created_at desc);
+create index analyses_postcode_idx on public.analyses (postcode text_pattern_ops);
+
+-- Anyone with the publishable key may browse history; only the service role
+-- (which bypasses RLS) writes
+alter table public.analyses enable row level security;
+
+create policy "Analyses are readable by everyone"
+  on public.analyses for select
+  using (true);
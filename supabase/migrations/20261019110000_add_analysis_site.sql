@@ -0,0 +1,5 @@
+-- Analyses can now run on an explicit point or a drawn polygon, which have no
+-- postcode. `site` records what was analysed: { kind, label, radius_m }.
+alter table public.analyses
+  alter column postcode drop not null,
+  add column site jsonb not null;